@@ -3,6 +3,7 @@ import { fileURLToPath } from 'url'
 import compress from 'astro-compress'
 import icon from 'astro-icon'
 import mdx from '@astrojs/mdx'
+import node from '@astrojs/node'
 import sitemap from '@astrojs/sitemap'
 import tailwindcss from '@tailwindcss/vite'
 
@@ -35,20 +36,55 @@ const viteConfig = {
   },
 }
 
+// Checks the theme config against this config once per build or server, see src/utils/themeConfigChecks.ts
+const themeConfigChecks = {
+  name: 'theme-config-checks',
+  hooks: {
+    'astro:config:setup': ({ injectScript }) => {
+      injectScript('page-ssr', "import '@utils/themeConfigChecks'")
+    },
+  },
+}
+
 // https://astro.build/config
 export default defineConfig({
   compressHTML: true,
   site: 'https://accessible-astro-starter.incluud.dev',
-  integrations: [compress(), icon(), mdx(), sitemap()],
+  integrations: [compress(), icon(), mdx(), sitemap(), themeConfigChecks],
+  // Pages are prerendered, the adapter serves the contact form action and pages with `prerender = false`
+  adapter: node({ mode: 'standalone' }),
   vite: viteConfig,
+  // Must match `defaultLocale` and `locales` in theme.config.ts, the build fails when they don't. Pages for other
+  // locales live in `src/pages/<locale>/`, e.g. `src/pages/nl/index.astro` for `/nl/`.
+  i18n: {
+    defaultLocale: 'en',
+    locales: ['en'],
+    routing: {
+      prefixDefaultLocale: false,
+    },
+  },
   env: {
     schema: {
+      // Optional: load blog posts from a remote API instead of `src/content/posts` (see `blog` in theme.config.ts)
       BLOG_API_URL: envField.string({
         context: 'server',
         access: 'secret',
         optional: true,
-        default: 'https://jsonplaceholder.typicode.com/posts',
       }),
+      // Optional: API key for blog sources that need one, e.g. a Ghost Content API key
+      BLOG_API_KEY: envField.string({
+        context: 'server',
+        access: 'secret',
+        optional: true,
+      }),
+      // Contact form delivery, see `contact` in theme.config.ts
+      SMTP_HOST: envField.string({ context: 'server', access: 'secret', optional: true }),
+      SMTP_PORT: envField.number({ context: 'server', access: 'secret', optional: true }),
+      SMTP_USER: envField.string({ context: 'server', access: 'secret', optional: true }),
+      SMTP_PASSWORD: envField.string({ context: 'server', access: 'secret', optional: true }),
+      CONTACT_WEBHOOK_URL: envField.string({ context: 'server', access: 'secret', optional: true }),
+      // Signs the contact form's time-to-submit token, see `contact.spamProtection` in theme.config.ts
+      CONTACT_FORM_SECRET: envField.string({ context: 'server', access: 'secret', optional: true }),
     },
   },
 })
@@ -0,0 +1,15 @@
+import { copyFile, mkdir } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const scriptDirectory = dirname(fileURLToPath(import.meta.url))
+const repoRoot = resolve(scriptDirectory, '../../..')
+const sharedDirectory = resolve(scriptDirectory, '../src/shared')
+
+// Starter modules the CLI uses as well, copied before every build so there's only one copy to maintain
+const sharedFiles = ['src/utils/slugify.ts']
+
+await mkdir(sharedDirectory, { recursive: true })
+await Promise.all(
+  sharedFiles.map((file) => copyFile(resolve(repoRoot, file), resolve(sharedDirectory, file.split('/').at(-1)))),
+)
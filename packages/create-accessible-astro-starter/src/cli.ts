@@ -102,16 +102,11 @@ async function resolveOptions(flags: ParsedFlags): Promise<ResolvedOptions> {
   const preset = flags.preset ?? (flags.yes ? 'full' : await promptForPreset())
   const includeLauncher =
     flags.includeLauncher ?? (flags.yes ? getDefaultLauncher(preset) : await promptForLauncher(preset))
-  const siteId = slugifySiteName(siteName)
-
-  if (!siteId) {
-    throw new Error('Could not derive a valid package name from the provided site name.')
-  }
 
   return {
     targetDir,
     siteName: siteName.trim(),
-    siteId,
+    siteId: slugifySiteName(siteName),
     preset,
     includeLauncher,
   }
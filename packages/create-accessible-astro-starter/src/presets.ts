@@ -10,6 +10,10 @@ const ALWAYS_DELETE = [
   'package-lock.json',
   'packages',
   'scripts/workspace-config.js',
+  'src/actions',
+  'src/utils/contactForm.ts',
+  'src/utils/contactSpam.ts',
+  'src/utils/contactTransport.ts',
   'public/accessible-components.webp',
   'public/wcag-compliant.webp',
   'src/components/ContentMedia.astro',
@@ -25,6 +29,8 @@ const DEMO_PAGE_GROUP = [
   'src/pages/mdx-page.mdx',
   'src/pages/sitemap.astro',
   'src/components/ColorContrast.astro',
+  'src/components/ColorPairChecker.astro',
+  'src/utils/sitemap.ts',
 ]
 
 export function buildManifest(options: Pick<ResolvedOptions, 'preset' | 'includeLauncher'>): ProjectManifest {
@@ -36,7 +42,7 @@ export function buildManifest(options: Pick<ResolvedOptions, 'preset' | 'include
   const keepThankYouPage = keepContactPage
   const keepMdx = keepDemoPages || keepPortfolio
   const keepBlogEnv = keepBlog
-  const keepContentCollection = keepPortfolio
+  const keepContentCollection = keepBlog || keepPortfolio
   const usePageHeader = options.preset !== 'barebones'
 
   const pathsToDelete = new Set<string>(ALWAYS_DELETE)
@@ -67,7 +73,10 @@ export function buildManifest(options: Pick<ResolvedOptions, 'preset' | 'include
     pathsToDelete.add('public/posts')
     pathsToDelete.add('src/assets/images/posts')
     pathsToDelete.add('src/components/FeaturedPosts.astro')
+    pathsToDelete.add('src/content/posts')
     pathsToDelete.add('src/pages/blog')
+    pathsToDelete.add('src/utils/blogSource.ts')
+    pathsToDelete.add('src/utils/getPosts.ts')
   }
 
   if (!keepPortfolio) {
@@ -75,9 +84,18 @@ export function buildManifest(options: Pick<ResolvedOptions, 'preset' | 'include
     pathsToDelete.add('src/assets/images/projects')
     pathsToDelete.add('src/components/BlockQuote.astro')
     pathsToDelete.add('src/components/FeaturedProjects.astro')
+    pathsToDelete.add('src/content/projects')
+    pathsToDelete.add('src/pages/portfolio')
+  }
+
+  if (!keepContentCollection) {
     pathsToDelete.add('src/content')
     pathsToDelete.add('src/content.config.ts')
-    pathsToDelete.add('src/pages/portfolio')
+    pathsToDelete.add('src/components/SearchForm.astro')
+    pathsToDelete.add('src/pages/search.astro')
+    pathsToDelete.add('src/pages/search-index.json.ts')
+    pathsToDelete.add('src/utils/search.ts')
+    pathsToDelete.add('src/utils/searchDocuments.ts')
   }
 
   if (!keepContactPage) {
@@ -101,6 +119,8 @@ export function buildManifest(options: Pick<ResolvedOptions, 'preset' | 'include
 
   if (!usePageHeader) {
     pathsToDelete.add('src/components/PageHeader.astro')
+    pathsToDelete.add('src/utils/breadcrumbs.ts')
+    pathsToDelete.add('src/utils/routeLabels.ts')
   }
 
   return {
@@ -19,6 +19,8 @@ import {
   createAboutPage,
   createAstroConfig,
   createContactPage,
+  createContentConfig,
+  createFeedSources,
   createFooter,
   createHeader,
   createHero,
@@ -26,7 +28,10 @@ import {
   createLauncherConfig,
   createNavigation,
   createNavigationItems,
+  createOgImagePages,
   createReadme,
+  createRouteLabels,
+  createSearchDocuments,
   createThankYouPage,
   createThemeConfig,
 } from './templates.js'
@@ -80,6 +85,8 @@ async function rewritePackageJson(targetDir: string, options: ResolvedOptions, m
     start: 'astro dev',
     build: 'astro build',
     preview: 'astro preview',
+    tokens: 'node scripts/design-tokens.mjs export',
+    'tokens:import': 'node scripts/design-tokens.mjs import',
   }
 
   delete packageJson.workspaces
@@ -91,6 +98,16 @@ async function rewritePackageJson(targetDir: string, options: ResolvedOptions, m
     delete packageJson.dependencies['accessible-astro-launcher']
   }
 
+  // Generated contact pages are static forms, so the server adapter and mail transport aren't needed
+  if (packageJson.dependencies) {
+    delete packageJson.dependencies['@astrojs/node']
+    delete packageJson.dependencies['nodemailer']
+  }
+
+  if (packageJson.devDependencies) {
+    delete packageJson.devDependencies['@types/nodemailer']
+  }
+
   if (packageJson.devDependencies && !manifest.keepMdx) {
     delete packageJson.devDependencies['@astrojs/mdx']
   }
@@ -98,12 +115,22 @@ async function rewritePackageJson(targetDir: string, options: ResolvedOptions, m
   await writeJson(packageJsonPath, packageJson)
 }
 
+// Generated projects have no server adapter, so the search page is prerendered and shows its results with JavaScript
+async function prerenderSearchPage(targetDir: string): Promise<void> {
+  const searchPagePath = resolve(targetDir, 'src/pages/search.astro')
+  const searchPage = await readFile(searchPagePath, 'utf8')
+  await writeText(searchPagePath, searchPage.replace(/\n(\/\/ .*\n)*export const prerender = false\n/, ''))
+}
+
 async function writeProjectFiles(targetDir: string, options: ResolvedOptions, manifest: ProjectManifest): Promise<void> {
   const keepOriginalFullChrome = manifest.preset === 'full' && manifest.includeLauncher
 
   await writeText(resolve(targetDir, 'README.md'), createReadme(options))
   await writeText(resolve(targetDir, 'astro.config.mjs'), createAstroConfig(manifest))
   await writeText(resolve(targetDir, 'theme.config.ts'), createThemeConfig(options, manifest))
+  if (manifest.keepContentCollection) {
+    await writeText(resolve(targetDir, 'src/content.config.ts'), createContentConfig(manifest))
+  }
   if (!keepOriginalFullChrome) {
     await writeText(resolve(targetDir, 'src/components/Header.astro'), createHeader(manifest.includeLauncher))
     await writeText(resolve(targetDir, 'src/components/Navigation.astro'), createNavigation(manifest.includeLauncher))
@@ -112,6 +139,16 @@ async function writeProjectFiles(targetDir: string, options: ResolvedOptions, ma
   await writeText(resolve(targetDir, 'src/components/NavigationItems.astro'), createNavigationItems(manifest.includeLauncher))
   await writeText(resolve(targetDir, 'src/pages/index.astro'), createIndexPage(options))
 
+  if (manifest.usePageHeader) {
+    await writeText(resolve(targetDir, 'src/utils/routeLabels.ts'), createRouteLabels(manifest))
+  }
+  await writeText(resolve(targetDir, 'src/utils/ogImagePages.ts'), createOgImagePages(manifest))
+  await writeText(resolve(targetDir, 'src/utils/feedSources.ts'), createFeedSources(manifest))
+  if (manifest.keepContentCollection) {
+    await writeText(resolve(targetDir, 'src/utils/searchDocuments.ts'), createSearchDocuments(manifest))
+    await prerenderSearchPage(targetDir)
+  }
+
   if (manifest.preset === 'full' || manifest.preset === 'blog' || manifest.preset === 'portfolio') {
     await writeText(resolve(targetDir, 'src/components/Hero.astro'), createHero(options))
   }
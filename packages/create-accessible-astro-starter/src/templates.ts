@@ -75,6 +75,10 @@ function buildThemeNavigation(manifest: ProjectManifest): ThemeNavItem[] {
             label: 'Sitemap',
             href: '/sitemap',
           },
+          {
+            label: 'Search',
+            href: '/search',
+          },
         ],
       },
       {
@@ -94,6 +98,10 @@ function buildThemeNavigation(manifest: ProjectManifest): ThemeNavItem[] {
         label: 'Blog',
         href: '/blog',
       },
+      {
+        label: 'Search',
+        href: '/search',
+      },
       {
         label: 'Contact',
         href: '/contact',
@@ -111,6 +119,10 @@ function buildThemeNavigation(manifest: ProjectManifest): ThemeNavItem[] {
         label: 'Portfolio',
         href: '/portfolio',
       },
+      {
+        label: 'Search',
+        href: '/search',
+      },
       {
         label: 'Contact',
         href: '/contact',
@@ -170,6 +182,30 @@ ${indent(childItems, 10)}
       }`
 }
 
+function renderThemeFooter(manifest: ProjectManifest, siteName: string): string {
+  const renderLink = (link: { label: string; href: string }) => `{
+  label: '${escapeForSingleQuotedString(link.label)}',
+  href: '${escapeForSingleQuotedString(link.href)}',
+}`
+  const legalLinks = manifest.keepDemoPages ? [{ label: 'Accessibility statement', href: '/accessibility-statement' }] : []
+  const pageLinks = buildThemeNavigation(manifest)
+    .flatMap((item) => (item.type === 'dropdown' ? item.items : [item]))
+    .filter((link) => !legalLinks.some((legalLink) => legalLink.href === link.href))
+
+  return `footer: {
+  columns: [
+    {
+      heading: 'Pages',
+      links: [
+${indent(pageLinks.map(renderLink).join(',\n'), 8)}
+      ],
+    },
+  ],
+  legal: [${legalLinks.length > 0 ? `\n${indent(legalLinks.map(renderLink).join(',\n'), 4)}\n  ` : ''}],
+  copyrightHolder: '${siteName}',
+}`
+}
+
 function createFeatureCards(cards: Array<{ title: string; body: string }>): string {
   return cards
     .map(
@@ -210,7 +246,13 @@ export function createAstroConfig(manifest: ProjectManifest): string {
     "import tailwindcss from '@tailwindcss/vite'",
   ]
 
-  const integrations = ['compress()', 'icon()', ...(manifest.keepMdx ? ['mdx()'] : []), 'sitemap()']
+  const integrations = [
+    'compress()',
+    'icon()',
+    ...(manifest.keepMdx ? ['mdx()'] : []),
+    'sitemap()',
+    'themeConfigChecks',
+  ]
 
   const envBlock = manifest.keepBlogEnv
     ? `  env: {
@@ -219,7 +261,11 @@ export function createAstroConfig(manifest: ProjectManifest): string {
         context: 'server',
         access: 'secret',
         optional: true,
-        default: 'https://jsonplaceholder.typicode.com/posts',
+      }),
+      BLOG_API_KEY: envField.string({
+        context: 'server',
+        access: 'secret',
+        optional: true,
       }),
     },
   },`
@@ -255,16 +301,401 @@ const viteConfig = {
   },
 }
 
+// Checks the theme config against this config once per build or server, see src/utils/themeConfigChecks.ts
+const themeConfigChecks = {
+  name: 'theme-config-checks',
+  hooks: {
+    'astro:config:setup': ({ injectScript }) => {
+      injectScript('page-ssr', "import '@utils/themeConfigChecks'")
+    },
+  },
+}
+
 export default defineConfig({
   compressHTML: true,
   site: 'https://example.com',
   integrations: [${integrations.join(', ')}],
   vite: viteConfig,
+  // Must match \`defaultLocale\` and \`locales\` in theme.config.ts, the build fails when they don't
+  i18n: {
+    defaultLocale: 'en',
+    locales: ['en'],
+    routing: {
+      prefixDefaultLocale: false,
+    },
+  },
 ${envBlock}
 })
 `
 }
 
+export function createContentConfig(manifest: Pick<ProjectManifest, 'keepBlog' | 'keepPortfolio'>): string {
+  const imports = [
+    "import { defineCollection } from 'astro:content'",
+    ...(manifest.keepBlog ? ["import { BLOG_API_KEY, BLOG_API_URL } from 'astro:env/server'"] : []),
+    "import { z } from 'astro/zod'",
+    ...(manifest.keepPortfolio ? ["import { glob } from 'astro/loaders'"] : []),
+    ...(manifest.keepBlog
+      ? ["import { blogSourceLoader } from '@utils/blogSource'", "import themeConfig from '@theme-config'"]
+      : []),
+  ]
+
+  const collections = [
+    ...(manifest.keepBlog
+      ? [
+          {
+            name: 'posts',
+            definition: `const posts = defineCollection({
+  loader: blogSourceLoader({
+    config: themeConfig.blog,
+    url: BLOG_API_URL,
+    key: BLOG_API_KEY,
+    defaultAuthor: themeConfig.seo.author || themeConfig.name,
+  }),
+  schema: ({ image }) =>
+    z.object({
+      title: z.string(),
+      description: z.string(),
+      pubDate: z.coerce.date(),
+      updatedDate: z.coerce.date().optional(),
+      author: z.string(),
+      tags: z.array(z.string()).default([]),
+      draft: z.boolean().default(false),
+      heroImage: z.union([z.url(), image()]).optional(),
+      heroImageAlt: z.string().default(''),
+      redirectFrom: z.array(z.string()).default([]),
+    }),
+})`,
+          },
+        ]
+      : []),
+    ...(manifest.keepPortfolio
+      ? [
+          {
+            name: 'projects',
+            definition: `const projects = defineCollection({
+  loader: glob({ pattern: '**/*.mdx', base: './src/content/projects' }),
+  schema: z.object({
+    title: z.string(),
+    author: z.string(),
+    description: z.string(),
+    tags: z.array(z.string()).default([]),
+  }),
+})`,
+          },
+        ]
+      : []),
+  ]
+
+  return `${imports.join('\n')}
+
+${collections.map((collection) => collection.definition).join('\n\n')}
+
+export const collections = { ${collections.map((collection) => collection.name).join(', ')} }
+`
+}
+
+export function createRouteLabels(manifest: Pick<ProjectManifest, 'keepBlog' | 'keepPortfolio'>): string {
+  const imports = [
+    ...(manifest.keepPortfolio ? ["import { getCollection } from 'astro:content'"] : []),
+    ...(manifest.keepBlog ? ["import { getPosts } from '@utils/getPosts'"] : []),
+    ...(manifest.keepPortfolio ? ["import { slugify } from '@utils/slugify'"] : []),
+  ]
+
+  const queries = [
+    ...(manifest.keepBlog ? ['  const posts = await getPosts()'] : []),
+    ...(manifest.keepPortfolio
+      ? [
+          "  const projects = await getCollection('projects')",
+          '  const tags = [...new Set(projects.flatMap((project) => project.data.tags))]',
+        ]
+      : []),
+  ]
+
+  const entries = [
+    ...(manifest.keepBlog ? ['    ...posts.map((post) => [`/blog/${post.id}`, post.data.title]),'] : []),
+    ...(manifest.keepPortfolio
+      ? [
+          '    ...projects.map((project) => [`/portfolio/${project.id}`, project.data.title]),',
+          '    ...tags.map((tag) => [`/portfolio/tag/${slugify(tag)}`, tag]),',
+        ]
+      : []),
+  ]
+
+  const body =
+    entries.length > 0
+      ? `${queries.join('\n')}
+
+  return Object.fromEntries([
+${entries.join('\n')}
+  ])`
+      : '  return {}'
+
+  return `${imports.length > 0 ? `${imports.join('\n')}\n\n` : ''}/**
+ * Get the labels of the pages generated from the content collections${manifest.keepBlog && manifest.keepPortfolio ? ': blog posts, projects and project tag pages' : ''}
+ * @returns Titles by href, e.g. \`{ '/blog/my-post': 'My post', '/portfolio/tag/astro': 'Astro' }\`
+ */
+export async function getRouteLabels(): Promise<Record<string, string>> {
+${body}
+}
+`
+}
+
+export function createOgImagePages(manifest: Pick<ProjectManifest, 'keepBlog' | 'keepPortfolio'>): string {
+  const imports = [
+    ...(manifest.keepPortfolio ? ["import { getCollection } from 'astro:content'"] : []),
+    "import themeConfig from '@theme-config'",
+    ...(manifest.keepBlog ? ["import { getPosts } from '@utils/getPosts'"] : []),
+    "import type { OgImagePage } from '@utils/ogImage'",
+  ]
+
+  const queries = [
+    ...(manifest.keepBlog ? ['    const posts = await getPosts()'] : []),
+    ...(manifest.keepPortfolio ? ["    const projects = await getCollection('projects')"] : []),
+  ]
+
+  const entries = [
+    ...(manifest.keepBlog
+      ? [
+          '      ...posts.map((post) => ({',
+          '        path: `/blog/${post.id}`,',
+          '        title: post.data.title,',
+          '        description: post.data.description,',
+          '      })),',
+        ]
+      : []),
+    ...(manifest.keepPortfolio
+      ? [
+          '      ...projects.map((project) => ({',
+          '        path: `/portfolio/${project.id}`,',
+          '        title: project.data.title,',
+          '        description: project.data.description,',
+          '      })),',
+        ]
+      : []),
+  ]
+
+  const pageKinds = [
+    ...(manifest.keepBlog ? ['blog posts'] : []),
+    ...(manifest.keepPortfolio ? ['projects'] : []),
+    'Markdown and MDX pages with a title',
+  ]
+
+  return `${imports.join('\n')}
+
+interface PageFrontmatter {
+  title?: string
+  description?: string
+}
+
+const markdownPages = import.meta.glob<PageFrontmatter>('/src/pages/**/*.{md,mdx}', { import: 'frontmatter' })
+
+let ogImagePages: Promise<OgImagePage[]> | undefined
+
+/**
+ * Get the pages that get a generated Open Graph image: ${pageKinds.length > 1 ? `${pageKinds.slice(0, -1).join(', ')} and ` : ''}${pageKinds.at(-1)}
+ * @returns The pages, none when \`ogImage.enabled\` is off in the theme config. Collected once per build or server.
+ */
+export function getOgImagePages(): Promise<OgImagePage[]> {
+  ogImagePages ??= (async () => {
+    if (!themeConfig.ogImage.enabled) return []
+
+${queries.length > 0 ? `${queries.join('\n')}\n` : ''}    const pages = await Promise.all(
+      Object.entries(markdownPages).map(async ([file, load]) => ({
+        path: file.replace(/^\\/src\\/pages/, '').replace(/(\\/index)?\\.mdx?$/, '') || '/',
+        frontmatter: await load(),
+      })),
+    )
+
+    return [
+${entries.length > 0 ? `${entries.join('\n')}\n` : ''}      ...pages.flatMap(({ path, frontmatter }) =>
+        frontmatter.title ? [{ path, title: frontmatter.title, description: frontmatter.description }] : [],
+      ),
+    ]
+  })()
+  return ogImagePages
+}
+`
+}
+
+export function createFeedSources(manifest: Pick<ProjectManifest, 'keepBlog' | 'keepPortfolio' | 'keepMdx'>): string {
+  const contentImports = [...(manifest.keepPortfolio ? ['getCollection'] : []), 'render']
+  const imports = [
+    ...(manifest.keepMdx
+      ? ["import { getContainerRenderer as getMdxRenderer } from '@astrojs/mdx/container-renderer'"]
+      : []),
+    "import type { AstroRenderer } from 'astro'",
+    ...(manifest.keepBlog || manifest.keepPortfolio
+      ? [`import { ${contentImports.join(', ')} } from 'astro:content'`]
+      : []),
+    ...(manifest.keepBlog ? ["import { getPosts } from '@utils/getPosts'"] : []),
+    "import type { FeedSource } from '@utils/feeds'",
+  ]
+
+  const sources = [
+    ...(manifest.keepBlog
+      ? [
+          `  {
+    id: 'blog',
+    title: 'Blog',
+    description: 'Articles and insights about web accessibility, development best practices, and inclusive design.',
+    href: '/blog',
+    getItems: async () =>
+      (await getPosts()).map((post) => ({
+        href: \`/blog/\${post.id}\`,
+        title: post.data.title,
+        description: post.data.description,
+        author: post.data.author,
+        categories: post.data.tags,
+        published: post.data.pubDate,
+        updated: post.data.updatedDate,
+        render: () => render(post),
+      })),
+  },`,
+        ]
+      : []),
+    ...(manifest.keepPortfolio
+      ? [
+          `  {
+    id: 'portfolio',
+    title: 'Portfolio',
+    description: 'A collection of projects demonstrating accessible design and development practices.',
+    href: '/portfolio',
+    getItems: async () =>
+      (await getCollection('projects')).map((project) => ({
+        href: \`/portfolio/\${project.id}\`,
+        title: project.data.title,
+        description: project.data.description,
+        author: project.data.author,
+        categories: project.data.tags,
+        render: () => render(project),
+      })),
+  },`,
+        ]
+      : []),
+  ]
+
+  return `${imports.join('\n')}
+
+/**
+ * Renderers for the full content of the entries${manifest.keepMdx ? ', MDX entries need the MDX renderer' : ''}
+ */
+export const feedRenderers: AstroRenderer[] = [${manifest.keepMdx ? 'getMdxRenderer()' : ''}]
+
+/**
+ * The collections that have feeds, see \`feeds\` in theme.config.ts for the formats and content
+ */
+export const feedSources: FeedSource[] = ${sources.length > 0 ? `[\n${sources.join('\n')}\n]` : '[]'}
+`
+}
+
+export function createSearchDocuments(manifest: Pick<ProjectManifest, 'keepBlog' | 'keepPortfolio'>): string {
+  const contentImports = [...(manifest.keepPortfolio ? ['getCollection'] : []), 'render', 'type CollectionEntry']
+  const collections = [...(manifest.keepBlog ? ["'posts'"] : []), ...(manifest.keepPortfolio ? ["'projects'"] : [])]
+
+  const queries = [
+    ...(manifest.keepBlog ? ['    const posts = await getPosts()'] : []),
+    ...(manifest.keepPortfolio ? ["    const projects = await getCollection('projects')"] : []),
+  ]
+
+  const entries = [
+    ...(manifest.keepBlog
+      ? [
+          `      ...(await Promise.all(
+        posts.map(async (post) => ({
+          href: \`/blog/\${post.id}\`,
+          title: post.data.title,
+          description: post.data.description,
+          type: 'post' as const,
+          headings: await getHeadings(post),
+          tags: post.data.tags,
+          body: toSearchText(post.body ?? ''),
+        })),
+      )),`,
+        ]
+      : []),
+    ...(manifest.keepPortfolio
+      ? [
+          `      ...(await Promise.all(
+        projects.map(async (project) => ({
+          href: \`/portfolio/\${project.id}\`,
+          title: project.data.title,
+          description: project.data.description,
+          type: 'project' as const,
+          headings: await getHeadings(project),
+          tags: project.data.tags,
+          body: toSearchText(project.body ?? ''),
+        })),
+      )),`,
+        ]
+      : []),
+  ]
+
+  const documentKinds = [
+    ...(manifest.keepBlog ? ['blog posts'] : []),
+    ...(manifest.keepPortfolio ? ['projects'] : []),
+    'Markdown and MDX pages with a title',
+  ]
+
+  return `import type { MarkdownHeading } from 'astro'
+import { ${contentImports.join(', ')} } from 'astro:content'
+${manifest.keepBlog ? "import { getPosts } from '@utils/getPosts'\n" : ''}import { toSearchText, type SearchDocument } from '@utils/search'
+
+interface PageModule {
+  frontmatter: { title?: string; description?: string; tags?: string[] }
+  getHeadings: () => MarkdownHeading[]
+}
+
+const markdownPages = import.meta.glob<PageModule>('/src/pages/**/*.{md,mdx}')
+const markdownSources = import.meta.glob<string>('/src/pages/**/*.{md,mdx}', { query: '?raw', import: 'default' })
+
+let documents: Promise<SearchDocument[]> | undefined
+
+/**
+ * Get the headings of a collection entry, MDX entries are only parsed when rendered
+ */
+const getHeadings = async (entry: CollectionEntry<${collections.join(' | ')}>) =>
+  (await render(entry)).headings.map((heading) => heading.text)
+
+/**
+ * Build the search index: ${documentKinds.slice(0, -1).join(', ')} and ${documentKinds.at(-1)}
+ * @returns The documents, built once per build or server
+ */
+export function getSearchDocuments(): Promise<SearchDocument[]> {
+  documents ??= (async () => {
+${queries.join('\n')}
+    const pages = await Promise.all(
+      Object.entries(markdownPages).map(async ([file, load]) => ({
+        href: file.replace(/^\\/src\\/pages/, '').replace(/(\\/index)?\\.mdx?$/, '') || '/',
+        page: await load(),
+        source: await markdownSources[file](),
+      })),
+    )
+
+    return [
+${entries.join('\n')}
+      ...pages.flatMap(({ href, page, source }) =>
+        page.frontmatter.title
+          ? [
+              {
+                href,
+                title: page.frontmatter.title,
+                description: page.frontmatter.description ?? '',
+                type: 'page' as const,
+                headings: page.getHeadings().map((heading) => heading.text),
+                tags: page.frontmatter.tags ?? [],
+                body: toSearchText(source),
+              },
+            ]
+          : [],
+      ),
+    ]
+  })()
+  return documents
+}
+`
+}
+
 export function createThemeConfig(options: ResolvedOptions, manifest: ProjectManifest): string {
   const navigationItems = buildThemeNavigation(manifest).map(renderThemeNavigationItem).join(',\n')
   const siteName = escapeForSingleQuotedString(options.siteName)
@@ -296,6 +727,8 @@ ${indent(navigationItems, 6)}
     ],
   },
   socials: [],
+  // Add contact details with e.g. contact: { address: ['Main Street 1', '1234 AB Amsterdam'], email: 'hello@example.com' }
+${indent(renderThemeFooter(manifest, siteName), 2)},
 })
 `
 }
@@ -304,15 +737,11 @@ export function createHeader(includeLauncher: boolean): string {
   const imports = [
     "import Navigation from '@components/Navigation.astro'",
     ...(includeLauncher ? ["import LauncherConfig from '@components/LauncherConfig.astro'"] : []),
-    `import { ${includeLauncher ? 'HighContrast, ReducedMotion, SkipLink' : 'SkipLink'} } from 'accessible-astro-components'`,
+    "import { SkipLink } from 'accessible-astro-components'",
   ]
 
   const launcherMarkup = includeLauncher
     ? `
-  <div hidden>
-    <HighContrast />
-    <ReducedMotion />
-  </div>
   <Navigation />
   <LauncherConfig />`
     : `
@@ -381,7 +810,7 @@ ${includeLauncher ? "import { LauncherTrigger } from 'accessible-astro-launcher'
     <Logo />
     <div class="wrapper">
       <nav class="desktop-menu" aria-label="Main navigation desktop">
-        <NavigationItems />
+        <NavigationItems id="desktop-nav" />
       </nav>
       <ResponsiveToggle />
 ${includeLauncher ? `      <div class="mobile-launcher">
@@ -389,192 +818,13 @@ ${includeLauncher ? `      <div class="mobile-launcher">
       </div>` : ''}
     </div>
     <nav class="mobile-menu" aria-label="Main navigation mobile">
-      <NavigationItems />
+      <NavigationItems id="mobile-nav" />
     </nav>
   </div>
 </div>
 
 <script>
-  document.addEventListener('astro:page-load', () => {
-    const mainNav = document.querySelector('#main-navigation') as HTMLElement | null
-    if (!mainNav) return
-
-    const mainMenu = mainNav.querySelector('ul') as HTMLUListElement | null
-    const dropdownMenus = [...document.querySelectorAll('.has-dropdown button')] as HTMLButtonElement[]
-
-    const setActiveMenuItem = (): void => {
-      const mobileDesktopMenus = mainNav.querySelectorAll('nav > ul')
-      const currentPath = window.location.pathname.replace(/\\/+$/, '') || '/'
-
-      mobileDesktopMenus.forEach((menu) => {
-        const menuItems = [...menu.querySelectorAll('a[href]:not([rel*="external"])')] as HTMLAnchorElement[]
-
-        menuItems.forEach((menuItem) => {
-          const itemPath = menuItem.pathname.replace(/\\/+$/, '') || '/'
-          const isHome = itemPath === '/'
-          const isActive = isHome ? currentPath === '/' : currentPath === itemPath || currentPath.startsWith(itemPath + '/')
-
-          if (isActive) {
-            menuItem.classList.add('is-active')
-            menuItem.setAttribute('aria-current', 'page')
-          }
-        })
-      })
-    }
-
-    const isOutOfViewport = (element: Element): boolean => {
-      const elementBounds = element.getBoundingClientRect()
-      return elementBounds.right > (window.innerWidth || document.documentElement.clientWidth)
-    }
-
-    const openDropdownMenu = (dropdownMenu: HTMLButtonElement): void => {
-      const dropdownList = dropdownMenu.parentNode?.querySelector('ul') as HTMLUListElement | null
-      if (!dropdownList) return
-
-      dropdownMenu.classList.add('show')
-      dropdownMenu.setAttribute('aria-expanded', 'true')
-
-      if (isOutOfViewport(dropdownList)) {
-        dropdownList.style.left = 'auto'
-      }
-    }
-
-    const closeDropdownMenu = (dropdownMenu: HTMLButtonElement): void => {
-      dropdownMenu.classList.remove('show')
-      dropdownMenu.setAttribute('aria-expanded', 'false')
-    }
-
-    const closeAllDropdownMenus = (): void => {
-      for (let i = 0; i < dropdownMenus.length; i++) {
-        closeDropdownMenu(dropdownMenus[i])
-      }
-    }
-
-    const toggleDropdownMenu = (event: MouseEvent): void => {
-      const target = event.target as HTMLButtonElement
-      if (target.getAttribute('aria-expanded') === 'false') {
-        closeAllDropdownMenus()
-        openDropdownMenu(target)
-      } else {
-        closeDropdownMenu(target)
-      }
-    }
-
-    mainMenu &&
-      mainMenu.addEventListener('keydown', (event: KeyboardEvent) => {
-        const element = event.target as Element
-        const currentMenuItem = element.closest('li')
-        const menuItems = [...mainMenu.querySelectorAll('.menu-item')] as HTMLLIElement[]
-        const currentDropdownMenu = element.closest('.has-dropdown button') as HTMLButtonElement | null
-        const currentDropdownMenuItem = element.closest('.has-dropdown li') as HTMLLIElement | null
-        const currentIndex = currentMenuItem ? menuItems.findIndex((item) => item === currentMenuItem) : -1
-
-        const key = event.key
-        let targetItem: Element | null = null
-
-        if (key === 'ArrowRight') {
-          if (currentMenuItem && menuItems.indexOf(currentMenuItem as HTMLLIElement) === menuItems.length - 1) {
-            targetItem = menuItems[0]
-          } else if (currentMenuItem) {
-            targetItem = menuItems[currentIndex + 1]
-          }
-        }
-
-        if (key === 'ArrowLeft') {
-          if (currentMenuItem && menuItems.indexOf(currentMenuItem as HTMLLIElement) === 0) {
-            targetItem = menuItems[menuItems.length - 1]
-          } else if (currentMenuItem) {
-            targetItem = menuItems[currentIndex - 1]
-          }
-        }
-
-        if (key === 'Escape') {
-          targetItem = menuItems[0]
-        }
-
-        if (currentDropdownMenu) {
-          const nextElement = currentDropdownMenu.nextElementSibling as Element | null
-          if (nextElement) {
-            const firstDropdownItem = nextElement.querySelector('li')
-
-            if (key === 'ArrowDown') {
-              event.preventDefault()
-              openDropdownMenu(currentDropdownMenu)
-              targetItem = firstDropdownItem
-            }
-          }
-
-          if (key === 'Escape') {
-            closeDropdownMenu(currentDropdownMenu)
-          }
-        }
-
-        if (currentDropdownMenuItem) {
-          const currentDropdownList = currentDropdownMenuItem.parentNode as Element | null
-          if (currentDropdownList) {
-            const dropdownMenuItems = [...currentDropdownList.querySelectorAll('li')] as HTMLLIElement[]
-            const currentIndex = dropdownMenuItems.findIndex((item) => item === currentDropdownMenuItem)
-
-            if (key === 'ArrowDown') {
-              event.preventDefault()
-
-              if (dropdownMenuItems.indexOf(currentDropdownMenuItem) === dropdownMenuItems.length - 1) {
-                targetItem = dropdownMenuItems[0]
-              } else {
-                targetItem = dropdownMenuItems[currentIndex + 1]
-              }
-            }
-
-            if (key === 'ArrowUp') {
-              event.preventDefault()
-
-              if (dropdownMenuItems.indexOf(currentDropdownMenuItem) === 0) {
-                targetItem = dropdownMenuItems[dropdownMenuItems.length - 1]
-              } else {
-                targetItem = dropdownMenuItems[currentIndex - 1]
-              }
-            }
-
-            if (key === 'Escape') {
-              const currentDropdownMenu = currentDropdownList.previousElementSibling as HTMLButtonElement | null
-              if (currentDropdownMenu) {
-                targetItem = currentDropdownMenu.parentElement
-                closeAllDropdownMenus()
-              }
-            }
-
-            if (key === 'Tab') {
-              const currentDropdownMenu = currentDropdownList.previousElementSibling as HTMLButtonElement | null
-              if (currentDropdownMenu) {
-                if (dropdownMenuItems.indexOf(currentDropdownMenuItem) === dropdownMenuItems.length - 1) {
-                  closeDropdownMenu(currentDropdownMenu)
-                }
-              }
-            }
-          }
-        }
-
-        if (targetItem) {
-          const focusableElement = targetItem.querySelector('a, button, input') as HTMLElement | null
-          if (focusableElement) {
-            focusableElement.focus()
-          }
-        }
-      })
-
-    dropdownMenus &&
-      dropdownMenus.forEach((dropdownMenu) => {
-        dropdownMenu.addEventListener('click', toggleDropdownMenu as EventListener)
-      })
-
-    setActiveMenuItem()
-    window.addEventListener('click', (event: MouseEvent) => {
-      const element = event.target as Element
-      if (!element.hasAttribute('aria-haspopup') && !element.classList.contains('submenu-item')) {
-        closeAllDropdownMenus()
-      }
-    })
-  })
+  import '@utils/navigationMenu'
 </script>
 
 <style lang="scss" is:global>
@@ -691,64 +941,6 @@ ${includeLauncher ? `      .mobile-launcher {
       }
     }
 
-    .has-dropdown {
-      position: relative;
-
-      > button {
-        display: flex;
-        align-items: center;
-        gap: var(--space-4xs);
-        margin-block-start: -1px;
-
-        svg {
-          transition: all var(--animation-speed-instant) var(--cubic-bezier);
-        }
-
-        &.show {
-          svg {
-            scale: -1;
-          }
-        }
-      }
-
-      ul {
-        display: none;
-        position: absolute;
-        flex-direction: column;
-        gap: var(--space-2xs);
-        translate: 0 1rem;
-        opacity: 0;
-        z-index: 100;
-        inset-block-start: 125%;
-        inset-inline-end: 0;
-        inset-inline-start: 0;
-        box-shadow: var(--elevation-4);
-        background: var(--background-color);
-        border: 2px solid var(--border-color-subtle);
-        border-radius: var(--radius-l);
-        padding: var(--space-m);
-        min-inline-size: 275px;
-
-        @media (prefers-reduced-motion: no-preference) {
-          transition-behavior: allow-discrete;
-          transition-duration: var(--animation-speed-fast);
-          transition-property: display, opacity, translate;
-          transition-timing-function: var(--cubic-bezier);
-        }
-      }
-
-      > button.show ~ ul {
-        display: flex;
-        translate: 0;
-        opacity: 1;
-
-        @starting-style {
-          translate: 0 1rem;
-          opacity: 0;
-        }
-      }
-    }
-
     .darkmode-toggle {
       border: none;
       padding: 0;
@@ -782,34 +974,38 @@ import themeConfig from '@theme-config'
 import { Link, DarkMode } from 'accessible-astro-components'
 ${includeLauncher ? "import { LauncherTrigger } from 'accessible-astro-launcher'" : ''}
 import { Icon } from 'astro-icon/components'
+import NavigationMenu from './NavigationMenu.astro'
+import { getAlternateLocales, getLocale } from '@utils/i18n'
+import { getAriaCurrent, getCurrentTrail } from '@utils/navigation'
 
-const currentPathname = Astro.url.pathname
-
-const isCurrentPage = (href: string): boolean => {
-  if (href === '/') {
-    return currentPathname === '/'
-  }
-
-  return currentPathname.startsWith(href)
+interface Props {
+  id?: string
 }
+
+const { id = 'menu' } = Astro.props
+const locale = getLocale(Astro.currentLocale)
+const alternates = getAlternateLocales(Astro.url.pathname, locale.code)
+const trail = getCurrentTrail(locale.navigation, Astro.url.pathname)
 ---
 
 <ul class="menu">
   {
-    themeConfig.navigation.items.map((item) => (
-      <li class={\`menu-item \${item.type === 'dropdown' ? 'has-dropdown' : ''}\`}>
-        {item.type === 'dropdown' ? (
-          <button aria-haspopup="true" aria-expanded="false">
-            {item.label}
-            <Icon aria-hidden="true" name="lucide:chevron-down" size="24" />
-          </button>
-        ) : !item.type || item.type === 'link' ? (
+    locale.navigation.map((item, index) => (
+      <li
+        class:list={[
+          'menu-item',
+          { 'has-dropdown': item.type === 'dropdown' || item.type === 'mega', 'has-mega-menu': item.type === 'mega' },
+        ]}
+      >
+        {item.type === 'dropdown' || item.type === 'mega' ? (
+          <NavigationMenu item={item} id={\`\${id}-\${index}\`} trail={trail} />
+        ) : (
           <Link
             href={item.href}
             isExternal={item.external ?? false}
             hideIcon={!!item.icon}
-            class={isCurrentPage(item.href) ? 'is-active' : undefined}
-            aria-current={isCurrentPage(item.href) ? 'page' : undefined}
+            class:list={{ 'is-active': getAriaCurrent(item, trail, Astro.url.pathname) }}
+            aria-current={getAriaCurrent(item, trail, Astro.url.pathname)}
           >
             {item.icon ? (
               <>
@@ -820,30 +1016,38 @@ const isCurrentPage = (href: string): boolean => {
               item.label
             )}
           </Link>
-        ) : null}
-        {item.type === 'dropdown' && (
-          <ul class="dropdown-menu">
-            {item.items.map((subItem) => (
-              <li class="submenu-item">
-                <Link
-                  href={subItem.href}
-                  isExternal={subItem.external ?? false}
-                  class={isCurrentPage(subItem.href) ? 'is-active' : undefined}
-                  aria-current={isCurrentPage(subItem.href) ? 'page' : undefined}
-                >
-                  {subItem.label}
-                </Link>
-              </li>
-            ))}
-          </ul>
         )}
       </li>
     ))
   }
+  {
+    alternates.length > 0 && (
+      <li class="menu-item has-dropdown">
+        <button aria-expanded="false" aria-controls={\`\${id}-language\`}>
+          <Icon aria-hidden="true" name="lucide:languages" size="24" />
+          <span class="sr-only">{locale.strings.language}</span>
+        </button>
+        <ul class="dropdown-menu" id={\`\${id}-language\`} data-menu-panel>
+          {alternates.map((alternate) => (
+            <li class="submenu-item">
+              <a
+                href={alternate.href}
+                hreflang={alternate.locale.lang}
+                lang={alternate.locale.lang}
+                aria-current={alternate.locale.code === locale.code ? 'true' : undefined}
+              >
+                {alternate.locale.label}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </li>
+    )
+  }
   {
     themeConfig.navigation.darkmode && (
       <li class="menu-item type-icon animate-rotate">
-        <DarkMode>
+        <DarkMode label={locale.strings.toggleDarkMode}>
           <Icon aria-hidden="true" name="lucide:moon" slot="light" />
           <Icon aria-hidden="true" name="lucide:sun" slot="dark" />
         </DarkMode>
@@ -964,17 +1168,38 @@ ${notification}
 export function createFooter(manifest: Pick<ProjectManifest, 'preset'>): string {
   if (manifest.preset === 'barebones') {
     return `---
+import themeConfig from '@theme-config'
+import PreferencesPanel from '@components/PreferencesPanel.astro'
 import { Link } from 'accessible-astro-components'
 
 const currentYear = new Date().getFullYear()
+const { footer } = themeConfig
 ---
 
 <footer>
   <section class="py-8">
-    <div class="container flex flex-col gap-4 md:flex-row md:justify-between">
-      <p>
-        &copy; {currentYear} - Starter Theme for <Link href="https://astro.build/">Astro</Link>.
-      </p>
+    <div class="container">
+      <PreferencesPanel />
+    </div>
+  </section>
+  <section class="py-8">
+    <div class="container flex flex-col gap-4 md:flex-row md:flex-wrap md:justify-between">
+      <p>&copy; {currentYear} {footer.copyrightHolder ?? themeConfig.name}</p>
+      {
+        footer.legal.length > 0 && (
+          <nav aria-label="Legal">
+            <ul class="flex flex-wrap gap-x-6 gap-y-2">
+              {footer.legal.map((link) => (
+                <li>
+                  <Link href={link.href} isExternal={link.external ?? false}>
+                    {link.label}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )
+      }
       <p>
         Made with ❤️ by <Link href="https://github.com/markteekman">Mark Teekman</Link>. Part of <Link
           href="https://www.incluud.dev">Incluud</Link
@@ -994,21 +1219,18 @@ const currentYear = new Date().getFullYear()
 
   return `---
 import themeConfig from '@theme-config'
+import PreferencesPanel from '@components/PreferencesPanel.astro'
 import { Heading, Link } from 'accessible-astro-components'
+import { getNavigationLinks } from '@utils/navigation'
 
 const currentYear = new Date().getFullYear()
+const { footer } = themeConfig
 
-const footerLinks = themeConfig.navigation.items.flatMap((item) => {
-  if (item.type === 'dropdown') {
-    return item.items.filter((subItem) => !subItem.external)
-  }
-
-  if (!item.type || item.type === 'link') {
-    return item.external ? [] : [item]
-  }
-
-  return []
-})
+// Without columns the footer lists the internal navigation links
+const columns =
+  footer.columns.length > 0
+    ? footer.columns
+    : [{ heading: 'Pages', links: getNavigationLinks(themeConfig.navigation.items).filter((link) => !link.external) }]
 
 const socialLinks = themeConfig.socials ?? []
 ---
@@ -1022,25 +1244,56 @@ const socialLinks = themeConfig.socials ?? []
           Replace this footer with your own links, business details, and supporting copy once you start customizing the
           project.
         </p>
+        {
+          footer.contact && (
+            <div class="space-content">
+              <Heading level="h3" size="h6">{footer.contact.heading ?? 'Contact'}</Heading>
+              <address class="not-italic">
+                {footer.contact.address.map((line) => (
+                  <>
+                    {line}
+                    <br />
+                  </>
+                ))}
+                {footer.contact.email && (
+                  <>
+                    <Link href={\`mailto:\${footer.contact.email}\`}>{footer.contact.email}</Link>
+                    <br />
+                  </>
+                )}
+                {footer.contact.phone && (
+                  <Link href={\`tel:\${footer.contact.phone.replace(/[^\\d+]/g, '')}\`}>{footer.contact.phone}</Link>
+                )}
+              </address>
+            </div>
+          )
+        }
+        <PreferencesPanel headingLevel="h3" />
       </div>
       {
-        footerLinks.length > 0 && (
-          <div>
-            <Heading level="h2" size="h6" class="mb-4">Pages</Heading>
+        columns.map((column, index) => (
+          <nav aria-labelledby={\`footer-column-\${index}\`}>
+            <Heading level="h2" size="h6" class="mb-4" id={\`footer-column-\${index}\`}>
+              {column.heading}
+            </Heading>
             <ul class="flex flex-col gap-2">
-              {footerLinks.map((link) => (
+              {column.links.map((link) => (
                 <li>
-                  <Link href={link.href}>{link.label}</Link>
+                  <Link href={link.href} isExternal={link.external ?? false}>
+                    {link.label}
+                  </Link>
                 </li>
               ))}
             </ul>
-          </div>
-        )
+          </nav>
+        ))
       }
       {
         socialLinks.length > 0 && (
-          <div>
-            <Heading level="h2" size="h6" class="mb-4">Socials</Heading>
+          <nav aria-labelledby="footer-socials">
+            <Heading level="h2" size="h6" class="mb-4" id="footer-socials">
+              Socials
+            </Heading>
             <ul class="flex flex-col gap-2">
               {socialLinks.map((link) => (
                 <li>
@@ -1050,16 +1303,29 @@ const socialLinks = themeConfig.socials ?? []
                 </li>
               ))}
             </ul>
-          </div>
+          </nav>
         )
       }
     </div>
   </section>
   <section class="py-8">
-    <div class="container flex flex-col gap-4 md:flex-row md:justify-between">
-      <p>
-        &copy; {currentYear} - Starter Theme for <Link href="https://astro.build/">Astro</Link>.
-      </p>
+    <div class="container flex flex-col gap-4 md:flex-row md:flex-wrap md:justify-between">
+      <p>&copy; {currentYear} {footer.copyrightHolder ?? themeConfig.name}</p>
+      {
+        footer.legal.length > 0 && (
+          <nav aria-label="Legal">
+            <ul class="flex flex-wrap gap-x-6 gap-y-2">
+              {footer.legal.map((link) => (
+                <li>
+                  <Link href={link.href} isExternal={link.external ?? false}>
+                    {link.label}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )
+      }
       <p>
         Made with ❤️ by <Link href="https://github.com/markteekman">Mark Teekman</Link>. Part of <Link
           href="https://www.incluud.dev">Incluud</Link
@@ -1078,39 +1344,18 @@ const socialLinks = themeConfig.socials ?? []
 }
 
 export function createLauncherConfig(manifest: ProjectManifest): string {
-  const blogImports = manifest.keepBlog ? ["import { BLOG_API_URL } from 'astro:env/server'", "import { slugify } from '@utils/slugify'"] : []
+  const blogImports = manifest.keepBlog ? ["import { getPosts } from '@utils/getPosts'"] : []
   const portfolioImports = manifest.keepPortfolio ? ["import { getCollection } from 'astro:content'"] : []
 
   const blogItems = manifest.keepBlog
     ? `const maxLauncherBlogPosts = 30
 
-const truncateBlogTitle = (title: string): string => {
-  return title.split(' ').slice(0, 4).join(' ')
-}
-
-const launcherBlogItems = await (async () => {
-  if (!BLOG_API_URL) return []
-
-  try {
-    const response = await fetch(BLOG_API_URL)
-    if (!response.ok) {
-      return []
-    }
-
-    const data = (await response.json()) as Array<{ title: string }>
-
-    return data.slice(0, maxLauncherBlogPosts).map((post) => {
-      const truncatedTitle = truncateBlogTitle(post.title)
-      return {
-        label: truncatedTitle,
-        href: \`/blog/\${slugify(truncatedTitle)}\`,
-      }
-    })
-  } catch {
-    return []
-  }
-})()`
-    : "const launcherBlogItems: Array<{ label: string; href: string }> = []"
+const launcherBlogItems = (await getPosts()).slice(0, maxLauncherBlogPosts).map((post) => ({
+  label: post.data.title,
+  href: \`/blog/\${post.id}\`,
+  keywords: [post.data.author, ...post.data.tags],
+}))`
+    : "const launcherBlogItems: Array<{ label: string; href: string; keywords?: string[] }> = []"
 
   const projectItems = manifest.keepPortfolio
     ? `const launcherProjectItems = (await getCollection('projects')).map((project) => ({
@@ -1120,6 +1365,70 @@ const launcherBlogItems = await (async () => {
 }))`
     : "const launcherProjectItems: Array<{ label: string; href: string; keywords?: string[] }> = []"
 
+  const searchNav = manifest.keepContentCollection
+    ? `
+  <LauncherNav label="Search">
+    <LauncherLink label="Search the site" href="/search" data-launcher-search="">
+      <Icon slot="icon" aria-hidden="true" name="lucide:search" size="16" />
+    </LauncherLink>
+  </LauncherNav>`
+    : ''
+
+  const searchScript = manifest.keepContentCollection
+    ? `
+
+<script>
+  import { loadSearchIndex, searchDocuments } from '@utils/search'
+
+  const normalizeHref = (href: string) => href.replace(/(.)\\/$/, '$1')
+
+  /**
+   * Let the launcher find pages by their content: the links to pages that match the search index get the query as a
+   * keyword, before the launcher filters its items. The "Search the site" link always matches and opens the search page.
+   * @param launcher - The launcher dialog
+   * @param query - What was typed
+   */
+  async function searchLauncher(launcher: HTMLElement, query: string): Promise<void> {
+    const hrefs = new Set(
+      query ? searchDocuments(await loadSearchIndex(), query).map((result) => normalizeHref(result.document.href)) : [],
+    )
+
+    launcher.querySelectorAll<HTMLAnchorElement>('.launcher-link').forEach((link) => {
+      link.dataset.baseKeywords ??= link.dataset.keywords ?? ''
+      const matches = link.hasAttribute('data-launcher-search') || hrefs.has(normalizeHref(link.dataset.href ?? ''))
+      link.dataset.keywords = [link.dataset.baseKeywords, matches ? query : ''].filter(Boolean).join(',')
+    })
+
+    const searchLink = launcher.querySelector<HTMLAnchorElement>('[data-launcher-search]')
+    if (searchLink) searchLink.href = query ? \`/search?q=\${encodeURIComponent(query)}\` : '/search'
+  }
+
+  // Load the index when the launcher opens, so it's there for the first keystroke
+  document.addEventListener('launcher:open', () => {
+    loadSearchIndex().catch(() => {})
+  })
+
+  let isIndexLoaded = false
+
+  // Runs before the launcher filters, which waits a frame after each keystroke
+  document.addEventListener('input', (event) => {
+    const input = event.target as HTMLInputElement
+    const launcher = input.closest<HTMLElement>('#site-launcher')
+    if (!launcher || !input.matches('.input')) return
+
+    const query = input.value.trim()
+    const wasIndexLoaded = isIndexLoaded
+    searchLauncher(launcher, query)
+      .then(() => {
+        isIndexLoaded = true
+        // The launcher filtered before the index was there, filter again
+        if (!wasIndexLoaded && input.value.trim() === query) input.dispatchEvent(new Event('input', { bubbles: true }))
+      })
+      .catch(() => {})
+  })
+</script>`
+    : ''
+
   return `---
 import {
   Launcher,
@@ -1130,8 +1439,11 @@ import {
 } from 'accessible-astro-launcher'
 import { Icon } from 'astro-icon/components'
 ${portfolioImports.join('\n')}
-${blogImports.join('\n')}
 import themeConfig from '@theme-config'
+import { feedFormats, getFeedLinks } from '@utils/feeds'
+${blogImports.join('\n')}
+import { getLocale } from '@utils/i18n'
+import { getNavigationLinks } from '@utils/navigation'
 
 const launcherPreferenceItems = [
   {
@@ -1146,33 +1458,41 @@ const launcherPreferenceItems = [
     label: 'Reduced motion',
     onAction: 'toggle-reduced-motion',
   },
+  {
+    label: 'Larger text',
+    onAction: 'toggle-larger-text',
+  },
+  {
+    label: 'Dyslexia-friendly font',
+    onAction: 'toggle-dyslexia-font',
+  },
+  {
+    label: 'Increased text spacing',
+    onAction: 'toggle-text-spacing',
+  },
+  {
+    label: 'Shorter lines',
+    onAction: 'toggle-short-lines',
+  },
 ]
 
 ${blogItems}
 
 ${projectItems}
 
-const launcherNavigationItems = themeConfig.navigation.items.flatMap((item) => {
-  if (item.type === 'dropdown') {
-    return item.items.map((subItem) => ({
-      label: subItem.label,
-      href: subItem.href,
-      external: subItem.external ?? false,
-    }))
-  }
-
-  if (!item.type || item.type === 'link') {
-    return [
-      {
-        label: item.label,
-        href: item.href,
-        external: item.external ?? false,
-      },
-    ]
-  }
+const launcherFeedItems = getFeedLinks().map((feed) => ({
+  label: \`\${feed.source.title} (\${feedFormats[feed.format].label})\`,
+  href: feed.href,
+  keywords: ['feed', 'subscribe', feed.format],
+}))
 
-  return []
-})
+const launcherNavigationItems = getNavigationLinks(getLocale(Astro.currentLocale).navigation, { launcher: true }).map(
+  (item) => ({
+    label: item.label,
+    href: item.href,
+    external: item.external ?? false,
+  }),
+)
 
 const launcherSocialItems = (themeConfig.socials ?? []).map((item) => ({
   label: item.label,
@@ -1200,12 +1520,12 @@ const launcherSocialItems = (themeConfig.socials ?? []).map((item) => ({
         />
       ))
     }
-  </LauncherNav>
+  </LauncherNav>${searchNav}
   {
     launcherBlogItems.length > 0 && (
       <LauncherNav label="Blog posts">
         {launcherBlogItems.map((item) => (
-          <LauncherLink label={item.label} href={item.href}>
+          <LauncherLink label={item.label} href={item.href} keywords={item.keywords}>
             <Icon slot="icon" aria-hidden="true" name="lucide:scroll-text" size="16" />
           </LauncherLink>
         ))}
@@ -1223,6 +1543,17 @@ const launcherSocialItems = (themeConfig.socials ?? []).map((item) => ({
       </LauncherNav>
     )
   }
+  {
+    launcherFeedItems.length > 0 && (
+      <LauncherNav label="Feeds">
+        {launcherFeedItems.map((item) => (
+          <LauncherLink label={item.label} href={item.href} keywords={item.keywords}>
+            <Icon slot="icon" aria-hidden="true" name="lucide:rss" size="16" />
+          </LauncherLink>
+        ))}
+      </LauncherNav>
+    )
+  }
   {
     launcherSocialItems.length > 0 && (
       <LauncherNav label="Socials">
@@ -1238,7 +1569,7 @@ const launcherSocialItems = (themeConfig.socials ?? []).map((item) => ({
       </LauncherNav>
     )
   }
-</Launcher>
+</Launcher>${searchScript}
 `
 }
 
@@ -1471,6 +1802,9 @@ import DefaultLayout from '@layouts/DefaultLayout.astro'
 import PageHeader from '@components/PageHeader.astro'
 import { Link, Notification } from 'accessible-astro-components'
 import { Icon } from 'astro-icon/components'
+
+// Only reached by sending the contact form, so it's left out of the sitemap page
+export const excludeFromSitemap = true
 ---
 
 <DefaultLayout title="Thank you">
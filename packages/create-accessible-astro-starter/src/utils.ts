@@ -1,14 +1,10 @@
 import { access, cp, mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises'
 import { constants } from 'node:fs'
 import { basename, dirname, resolve } from 'node:path'
+import { slugify } from './shared/slugify.js'
 
 export function slugifySiteName(value: string): string {
-  return value
-    .toLowerCase()
-    .trim()
-    .replace(/['"]/g, '')
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
+  return slugify(value, { transliterate: true, fallback: 'accessible-astro-site' })
 }
 
 export function deriveSiteNameFromDirectory(targetDir: string): string {
@@ -38,8 +38,19 @@ test('full preset keeps the starter header, navigation, logo, and hero structure
   const generatedNavigationItems = await readFile(resolve(targetDir, 'src/components/NavigationItems.astro'), 'utf8')
   const generatedFooter = await readFile(resolve(targetDir, 'src/components/Footer.astro'), 'utf8')
   const generatedIndex = await readFile(resolve(targetDir, 'src/pages/index.astro'), 'utf8')
+  const generatedRouteLabels = await readFile(resolve(targetDir, 'src/utils/routeLabels.ts'), 'utf8')
+  const generatedOgImagePages = await readFile(resolve(targetDir, 'src/utils/ogImagePages.ts'), 'utf8')
+  const generatedFeedSources = await readFile(resolve(targetDir, 'src/utils/feedSources.ts'), 'utf8')
+  const generatedSearchDocuments = await readFile(resolve(targetDir, 'src/utils/searchDocuments.ts'), 'utf8')
+  const generatedSearchPage = await readFile(resolve(targetDir, 'src/pages/search.astro'), 'utf8')
 
   assert.equal(generatedHeader, await readFile(resolve(repoRoot, 'src/components/Header.astro'), 'utf8'))
+  assert.equal(generatedRouteLabels, await readFile(resolve(repoRoot, 'src/utils/routeLabels.ts'), 'utf8'))
+  assert.equal(generatedOgImagePages, await readFile(resolve(repoRoot, 'src/utils/ogImagePages.ts'), 'utf8'))
+  assert.equal(generatedFeedSources, await readFile(resolve(repoRoot, 'src/utils/feedSources.ts'), 'utf8'))
+  assert.equal(generatedSearchDocuments, await readFile(resolve(repoRoot, 'src/utils/searchDocuments.ts'), 'utf8'))
+  assert.ok(!generatedSearchPage.includes('export const prerender = false'))
+  assert.ok(generatedSearchPage.includes("import { getSearchDocuments } from '@utils/searchDocuments'\n\nconst { strings }"))
   assert.equal(generatedNavigation, await readFile(resolve(repoRoot, 'src/components/Navigation.astro'), 'utf8'))
   assert.equal(generatedLogo, await readFile(resolve(repoRoot, 'src/components/Logo.astro'), 'utf8'))
   assert.equal(generatedFooter, await readFile(resolve(repoRoot, 'src/components/Footer.astro'), 'utf8'))
@@ -59,8 +70,10 @@ test('full preset keeps the starter header, navigation, logo, and hero structure
   await expectExists(targetDir, 'src/assets/img/logo.svg')
   await expectExists(targetDir, 'src/components/Feature.astro')
   await expectExists(targetDir, 'src/components/CallToAction.astro')
-  assert.ok(generatedNavigationItems.includes('const currentPathname = Astro.url.pathname'))
-  assert.ok(generatedNavigationItems.includes("aria-current={isCurrentPage(item.href) ? 'page' : undefined}"))
+  assert.ok(generatedNavigationItems.includes('const trail = getCurrentTrail(locale.navigation, Astro.url.pathname)'))
+  assert.ok(generatedNavigationItems.includes('aria-current={getAriaCurrent(item, trail, Astro.url.pathname)}'))
+  assert.ok(generatedNavigationItems.includes('<NavigationMenu item={item} id={`${id}-${index}`} trail={trail} />'))
+  await expectExists(targetDir, 'src/components/NavigationMenu.astro')
   assert.ok(generatedNavigationItems.includes('<li class="menu-item type-icon animate-rotate">'))
   assert.ok(generatedIndex.includes("import Hero from '@components/Hero.astro'"))
   assert.ok(generatedIndex.includes("import Feature from '@components/Feature.astro'"))
@@ -94,7 +107,8 @@ test('blog preset keeps styled navigation, logo asset, and uses a generated hero
   assert.ok(generatedHeader.includes("<style lang=\"scss\" is:global>"))
   assert.ok(generatedHeader.includes("li.desktop-launcher"))
   assert.ok(generatedNavigation.includes("<style lang=\"scss\" is:global>"))
-  assert.ok(generatedNavigation.includes("document.addEventListener('astro:page-load'"))
+  assert.ok(generatedNavigation.includes("import '@utils/navigationMenu'"))
+  assert.ok(generatedNavigation.includes('<NavigationItems id="mobile-nav" />'))
   assert.ok(generatedNavigation.includes(".has-dropdown > button:focus-visible"))
   assert.ok(generatedNavigation.includes('.darkmode-toggle'))
   assert.ok(generatedNavigation.includes('inline-size: 30px'))
@@ -116,7 +130,9 @@ test('blog preset keeps styled navigation, logo asset, and uses a generated hero
   assert.ok(!generatedHero.includes('href="/contact"'))
   assert.ok(generatedFooter.includes('<ul class="flex flex-col gap-2">'))
   assert.ok(!generatedFooter.includes('<ul class="space-content">'))
-  assert.ok(generatedFooter.includes('&copy; {currentYear} - Starter Theme for <Link href="https://astro.build/">Astro</Link>.'))
+  assert.ok(generatedFooter.includes('<p>&copy; {currentYear} {footer.copyrightHolder ?? themeConfig.name}</p>'))
+  assert.ok(generatedFooter.includes('<nav aria-labelledby={`footer-column-${index}`}>'))
+  assert.ok(generatedThemeConfig.includes("copyrightHolder: 'Fixture blog',"))
   assert.ok(generatedThemeConfig.includes("import logoImage from '@assets/img/logo.svg'"))
   assert.ok(generatedThemeConfig.includes('logo: logoImage'))
   await expectExists(targetDir, 'src/assets/img/logo.svg')
@@ -187,11 +203,30 @@ test('barebones preset renders notification and slim footer', async () => {
   assert.ok(generatedIndex.includes('<Notification type="info">'))
   assert.ok(!generatedIndex.includes('variant="accent"'))
   assert.ok(generatedIndex.includes('Start by editing this page, theme.config.ts, and the navigation to match your project.'))
-  assert.ok(generatedFooter.includes('&copy; {currentYear} - Starter Theme for <Link href="https://astro.build/">Astro</Link>.'))
+  assert.ok(generatedFooter.includes('<p>&copy; {currentYear} {footer.copyrightHolder ?? themeConfig.name}</p>'))
+  assert.ok(generatedFooter.includes('<nav aria-label="Legal">'))
   assert.ok(generatedFooter.includes('Made with ❤️ by <Link href="https://github.com/markteekman">Mark Teekman</Link>'))
   assert.ok(!generatedFooter.includes('footerLinks'))
   assert.ok(!generatedFooter.includes('socialLinks'))
   assert.ok(!generatedFooter.includes('<Heading level="h2" size="h4">{themeConfig.name}</Heading>'))
+  assert.ok(generatedFooter.includes('<PreferencesPanel />'))
+  await expectMissing(targetDir, 'src/utils/breadcrumbs.ts')
+  await expectMissing(targetDir, 'src/utils/routeLabels.ts')
+
+  const generatedOgImagePages = await readFile(resolve(targetDir, 'src/utils/ogImagePages.ts'), 'utf8')
+  assert.ok(!generatedOgImagePages.includes('astro:content'))
+  assert.ok(!generatedOgImagePages.includes('getPosts'))
+  assert.ok(generatedOgImagePages.includes("import.meta.glob<PageFrontmatter>('/src/pages/**/*.{md,mdx}'"))
+
+  const generatedFeedSources = await readFile(resolve(targetDir, 'src/utils/feedSources.ts'), 'utf8')
+  assert.ok(!generatedFeedSources.includes('astro:content'))
+  assert.ok(generatedFeedSources.includes('export const feedSources: FeedSource[] = []'))
+
+  const generatedLauncherConfig = await readFile(resolve(targetDir, 'src/components/LauncherConfig.astro'), 'utf8')
+  assert.ok(!generatedLauncherConfig.includes('@utils/search'))
+  await expectMissing(targetDir, 'src/pages/search.astro')
+  await expectMissing(targetDir, 'src/utils/search.ts')
+  await expectMissing(targetDir, 'src/utils/searchDocuments.ts')
 })
 
 test('generated markup escapes site names in HTML text and attributes', async () => {
@@ -238,11 +273,53 @@ test('generated navigation compares active paths without substring matches', asy
   await scaffoldProject(options, manifest)
 
   const generatedNavigation = await readFile(resolve(targetDir, 'src/components/Navigation.astro'), 'utf8')
+  const navigationUtils = await readFile(resolve(targetDir, 'src/utils/navigation.ts'), 'utf8')
 
-  assert.ok(generatedNavigation.includes("currentPath === itemPath || currentPath.startsWith(itemPath + '/')"))
+  assert.ok(navigationUtils.includes("href === current || (href !== '/' && current.startsWith(`${href}/`))"))
   assert.ok(!generatedNavigation.includes("currentPathname.includes(menuItem.pathname.replaceAll('/', ''))"))
 })
 
+test('blog preset keeps the posts collection without the projects collection', async () => {
+  const tempRoot = await mkdtemp(join(tmpdir(), 'accessible-astro-starter-'))
+  const targetDir = join(tempRoot, 'blog-content-collection')
+  const options = createOptions('blog', true, targetDir)
+  const manifest = buildManifest(options)
+
+  process.env.ACCESSIBLE_ASTRO_STARTER_TEMPLATE_DIR = repoRoot
+  await scaffoldProject(options, manifest)
+
+  const generatedContentConfig = await readFile(resolve(targetDir, 'src/content.config.ts'), 'utf8')
+  const generatedLauncherConfig = await readFile(resolve(targetDir, 'src/components/LauncherConfig.astro'), 'utf8')
+  const generatedRouteLabels = await readFile(resolve(targetDir, 'src/utils/routeLabels.ts'), 'utf8')
+
+  assert.ok(generatedContentConfig.includes('const posts = defineCollection({'))
+  assert.ok(generatedContentConfig.includes('config: themeConfig.blog,'))
+  assert.ok(!generatedContentConfig.includes('const projects = defineCollection({'))
+  assert.ok(generatedContentConfig.includes('export const collections = { posts }'))
+  assert.ok(generatedLauncherConfig.includes("import { getPosts } from '@utils/getPosts'"))
+  assert.ok(!generatedLauncherConfig.includes('fetch('))
+  assert.ok(generatedRouteLabels.includes('...posts.map((post) => [`/blog/${post.id}`, post.data.title]),'))
+  assert.ok(!generatedRouteLabels.includes("getCollection('projects')"))
+  const generatedOgImagePages = await readFile(resolve(targetDir, 'src/utils/ogImagePages.ts'), 'utf8')
+  assert.ok(generatedOgImagePages.includes('...posts.map((post) => ({\n        path: `/blog/${post.id}`,'))
+  assert.ok(!generatedOgImagePages.includes("getCollection('projects')"))
+  const generatedFeedSources = await readFile(resolve(targetDir, 'src/utils/feedSources.ts'), 'utf8')
+  assert.ok(generatedFeedSources.includes("import { render } from 'astro:content'"))
+  assert.ok(generatedFeedSources.includes("id: 'blog',"))
+  assert.ok(!generatedFeedSources.includes("id: 'portfolio',"))
+  assert.ok(!generatedFeedSources.includes('@astrojs/mdx'))
+  assert.ok(generatedLauncherConfig.includes('const launcherFeedItems = getFeedLinks().map((feed) => ({'))
+  assert.ok(generatedLauncherConfig.includes('<LauncherLink label="Search the site" href="/search" data-launcher-search="">'))
+  const generatedSearchDocuments = await readFile(resolve(targetDir, 'src/utils/searchDocuments.ts'), 'utf8')
+  assert.ok(generatedSearchDocuments.includes("import { render, type CollectionEntry } from 'astro:content'"))
+  assert.ok(generatedSearchDocuments.includes("const getHeadings = async (entry: CollectionEntry<'posts'>) =>"))
+  assert.ok(!generatedSearchDocuments.includes("getCollection('projects')"))
+  await expectExists(targetDir, 'src/content/posts/getting-started-with-accessible-astro.md')
+  await expectExists(targetDir, 'src/utils/getPosts.ts')
+  await expectExists(targetDir, 'src/utils/blogSource.ts')
+  await expectMissing(targetDir, 'src/content/projects/project-01.mdx')
+})
+
 async function expectExists(rootDir: string, relativePath: string): Promise<void> {
   const file = resolve(rootDir, relativePath)
   const content = await readFile(file, 'utf8').catch(() => null)
@@ -269,6 +346,7 @@ for (const preset of PRESETS) {
         name: string
         private?: boolean
         workspaces?: string[]
+        scripts?: Record<string, string>
         dependencies?: Record<string, string>
         devDependencies?: Record<string, string>
       }
@@ -276,16 +354,20 @@ for (const preset of PRESETS) {
       assert.equal(packageJson.name, options.siteId)
       assert.equal(packageJson.private, true)
       assert.equal(packageJson.workspaces, undefined)
+      assert.equal(packageJson.scripts?.tokens, 'node scripts/design-tokens.mjs export')
       assert.equal(Boolean(packageJson.dependencies?.['accessible-astro-launcher']), includeLauncher)
       assert.equal(Boolean(packageJson.devDependencies?.['@astrojs/mdx']), manifest.keepMdx)
 
       const astroConfig = await readFile(resolve(targetDir, 'astro.config.mjs'), 'utf8')
       assert.ok(!astroConfig.includes('workspace-config'))
       assert.ok(astroConfig.includes('vite: viteConfig'))
+      assert.ok(astroConfig.includes("injectScript('page-ssr', \"import '@utils/themeConfigChecks'\")"))
+      await expectExists(targetDir, 'src/utils/themeConfigChecks.ts')
       assert.equal(astroConfig.includes("@astrojs/mdx"), manifest.keepMdx)
       assert.equal(astroConfig.includes('BLOG_API_URL'), manifest.keepBlogEnv)
 
       await expectMissing(targetDir, 'scripts/workspace-config.js')
+      await expectExists(targetDir, 'scripts/design-tokens.mjs')
       await expectMissing(targetDir, 'package-lock.json')
       await expectExists(targetDir, 'src/assets/img/logo.svg')
 
@@ -299,9 +381,13 @@ for (const preset of PRESETS) {
 
       if (manifest.keepPortfolio) {
         await expectExists(targetDir, 'src/pages/portfolio/[...page].astro')
-        await expectExists(targetDir, 'src/content.config.ts')
       } else {
         await expectMissing(targetDir, 'src/pages/portfolio/[...page].astro')
+      }
+
+      if (manifest.keepContentCollection) {
+        await expectExists(targetDir, 'src/content.config.ts')
+      } else {
         await expectMissing(targetDir, 'src/content.config.ts')
       }
 
@@ -322,9 +408,13 @@ for (const preset of PRESETS) {
       if (manifest.keepDemoPages) {
         await expectExists(targetDir, 'src/pages/accessible-components.astro')
         await expectExists(targetDir, 'src/pages/color-contrast-checker.astro')
+        await expectExists(targetDir, 'src/pages/sitemap.astro')
+        await expectExists(targetDir, 'src/utils/sitemap.ts')
       } else {
         await expectMissing(targetDir, 'src/pages/accessible-components.astro')
         await expectMissing(targetDir, 'src/pages/color-contrast-checker.astro')
+        await expectMissing(targetDir, 'src/pages/sitemap.astro')
+        await expectMissing(targetDir, 'src/utils/sitemap.ts')
       }
 
       if (includeLauncher) {
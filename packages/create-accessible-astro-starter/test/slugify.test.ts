@@ -0,0 +1,41 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { slugify } from '../src/shared/slugify.js'
+import { slugifySiteName } from '../src/utils.js'
+
+test('slugify lowercases text and joins words with hyphens', () => {
+  assert.equal(slugify('  Hello, World!  '), 'hello-world')
+  assert.equal(slugify('Don\'t "quote" me'), 'dont-quote-me')
+})
+
+test('slugify removes diacritics and expands special letters', () => {
+  assert.equal(slugify('Accessibilité'), 'accessibilite')
+  assert.equal(slugify('Überblick'), 'uberblick')
+  assert.equal(slugify('Straße Æther Łódź'), 'strasse-aether-lodz')
+})
+
+test('slugify keeps letters of other scripts by default', () => {
+  assert.equal(slugify('Привет мир'), 'привет-мир')
+  assert.equal(slugify('アクセシビリティ 入門'), 'アクセシビリティ-入門')
+})
+
+test('slugify transliterates Cyrillic and Greek to ASCII on request', () => {
+  assert.equal(slugify('Привет мир', { transliterate: true }), 'privet-mir')
+  assert.equal(slugify('Καλημέρα κόσμε', { transliterate: true }), 'kalimera-kosme')
+})
+
+test('slugify never returns an empty slug', () => {
+  const hashed = slugify('入門', { transliterate: true })
+
+  assert.match(hashed, /^n[a-z0-9]+$/)
+  assert.equal(slugify('入門', { transliterate: true }), hashed)
+  assert.notEqual(slugify('日本語', { transliterate: true }), hashed)
+  assert.match(slugify('---'), /^n[a-z0-9]+$/)
+  assert.equal(slugify('!!!', { fallback: 'post' }), 'post')
+})
+
+test('slugifySiteName derives an ASCII package name', () => {
+  assert.equal(slugifySiteName("Jane's Überblick Site"), 'janes-uberblick-site')
+  assert.equal(slugifySiteName('Мой сайт'), 'moy-sayt')
+  assert.equal(slugifySiteName('日本語'), 'accessible-astro-site')
+})
@@ -0,0 +1,73 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import { dirname, relative, resolve } from 'node:path'
+import { getViteConfig } from 'astro/config'
+import { createServer } from 'vite'
+
+const scriptDirectory = dirname(fileURLToPath(import.meta.url))
+const repoRoot = resolve(scriptDirectory, '..')
+
+const outputs = {
+  json: resolve(repoRoot, 'design-tokens/tokens.json'),
+  css: resolve(repoRoot, 'design-tokens/tokens.css'),
+  tailwind: resolve(repoRoot, 'src/styles/theme.css'),
+}
+
+const usage = `Usage:
+  npm run tokens                        Export the design tokens from theme.config.ts
+  npm run tokens:import -- <file.json>  Convert a Tokens Studio file into theme config sections`
+
+/**
+ * Load a module through Astro's Vite setup, so theme.config.ts can use the path aliases and image imports
+ */
+async function createModuleLoader() {
+  const viteConfig = await getViteConfig(
+    { appType: 'custom', logLevel: 'error', server: { middlewareMode: true, hmr: false } },
+    { logLevel: 'silent' },
+  )({ command: 'serve', mode: 'development' })
+  return createServer({ ...viteConfig, configFile: false, root: repoRoot })
+}
+
+async function exportTokens(server) {
+  const { default: themeConfig } = await server.ssrLoadModule('/theme.config.ts')
+  const { createDesignTokens, formatTokensAsCss, formatTokensAsJson, formatTokensAsTailwindTheme } =
+    await server.ssrLoadModule('/src/utils/designTokens.ts')
+  const tokens = createDesignTokens(themeConfig)
+
+  await mkdir(dirname(outputs.json), { recursive: true })
+  await writeFile(outputs.json, formatTokensAsJson(tokens))
+  await writeFile(outputs.css, formatTokensAsCss(tokens))
+  await writeFile(outputs.tailwind, formatTokensAsTailwindTheme(tokens))
+
+  Object.values(outputs).forEach((output) => console.log(`Wrote ${relative(repoRoot, output)}`))
+}
+
+async function importTokens(server, file) {
+  const { importTokensStudio } = await server.ssrLoadModule('/src/utils/designTokens.ts')
+  const { config, skipped } = importTokensStudio(JSON.parse(await readFile(resolve(process.cwd(), file), 'utf8')))
+
+  console.log('Copy these sections into theme.config.ts, then run `npm run tokens`:\n')
+  Object.entries(config).forEach(([section, value]) => {
+    console.log(`  ${section}: ${JSON.stringify(value, null, 2).replaceAll('\n', '\n  ')},`)
+  })
+  if (skipped.length) {
+    console.log(
+      `\nSkipped tokens that don't map to the theme config:\n${skipped.map((path) => `  - ${path}`).join('\n')}`,
+    )
+  }
+}
+
+const [command = 'export', file] = process.argv.slice(2)
+
+if (command !== 'export' && !(command === 'import' && file)) {
+  console.error(usage)
+  process.exit(1)
+}
+
+const server = await createModuleLoader()
+try {
+  if (command === 'export') await exportTokens(server)
+  else await importTokens(server, file)
+} finally {
+  await server.close()
+}
@@ -0,0 +1,28 @@
+import { ActionError, defineAction } from 'astro:actions'
+import { contactFormSchema } from '@utils/contactForm'
+import { checkContactSpam, contactSpamSchema } from '@utils/contactSpam'
+import { getContactTransport } from '@utils/contactTransport'
+
+export const server = {
+  contact: defineAction({
+    accept: 'form',
+    input: contactFormSchema.extend(contactSpamSchema.shape),
+    handler: async (input, context) => {
+      const { website, formToken, ...submission } = input
+      const rejection = checkContactSpam({ website, formToken }, context.clientAddress)
+      if (rejection) {
+        throw new ActionError(rejection)
+      }
+
+      try {
+        await getContactTransport().send(submission)
+      } catch (error) {
+        console.error('Failed to deliver contact form submission:', error)
+        throw new ActionError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Your message could not be sent. Please try again later or email us directly.',
+        })
+      }
+    },
+  }),
+}
@@ -1,11 +1,39 @@
 // 1. Import utilities from `astro:content`
 import { defineCollection } from 'astro:content'
+import { BLOG_API_KEY, BLOG_API_URL } from 'astro:env/server'
 import { z } from 'astro/zod'
 
 // 2. Import loader(s)
 import { glob } from 'astro/loaders'
+import { blogSourceLoader } from '@utils/blogSource'
+import themeConfig from '@theme-config'
 
 // 3. Define your collection(s)
+const posts = defineCollection({
+  // Local Markdown/MDX posts by default, set `blog.source` in theme.config.ts to load posts from a JSON,
+  // WordPress or Ghost API instead
+  loader: blogSourceLoader({
+    config: themeConfig.blog,
+    url: BLOG_API_URL,
+    key: BLOG_API_KEY,
+    defaultAuthor: themeConfig.seo.author || themeConfig.name,
+  }),
+  schema: ({ image }) =>
+    z.object({
+      title: z.string(),
+      description: z.string(),
+      pubDate: z.coerce.date(),
+      updatedDate: z.coerce.date().optional(),
+      author: z.string(),
+      tags: z.array(z.string()).default([]),
+      draft: z.boolean().default(false),
+      heroImage: z.union([z.url(), image()]).optional(),
+      heroImageAlt: z.string().default(''),
+      // Old slugs that redirect to this post, e.g. after renaming the file
+      redirectFrom: z.array(z.string()).default([]),
+    }),
+})
+
 const projects = defineCollection({
   loader: glob({ pattern: '**/*.mdx', base: './src/content/projects' }),
   schema: z.object({
@@ -17,4 +45,4 @@ const projects = defineCollection({
 })
 
 // 4. Export a single `collections` object to register you collection(s)
-export const collections = { projects }
+export const collections = { posts, projects }
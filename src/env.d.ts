@@ -1,2 +1,24 @@
 /// <reference path="../.astro/types.d.ts" />
 /// <reference types="astro/client" />
+
+type PreferenceName = 'highContrast' | 'reducedMotion' | 'textSize' | 'dyslexiaFont' | 'textSpacing' | 'shortLines'
+type PreferenceValue = boolean | 'default' | 'large' | 'larger' | 'largest'
+
+interface Window {
+  /**
+   * Display and reading preferences set up by `src/components/Preferences.astro`
+   */
+  preferences?: {
+    get: (name: PreferenceName) => PreferenceValue
+    /**
+     * Store a preference, `undefined` goes back to the system setting
+     */
+    set: (name: PreferenceName, value: PreferenceValue | undefined) => void
+    toggle: (name: Exclude<PreferenceName, 'textSize'>) => void
+    reset: () => void
+  }
+}
+
+interface DocumentEventMap {
+  'preferences:change': CustomEvent<{ name: PreferenceName; value: PreferenceValue }>
+}
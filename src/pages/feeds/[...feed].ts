@@ -0,0 +1,15 @@
+import type { APIRoute, GetStaticPaths } from 'astro'
+import type { FeedFormat } from '@utils/defineThemeConfig'
+import { getFeedLinks, renderFeed, type FeedSource } from '@utils/feeds'
+
+// RSS, Atom and JSON feeds of the collections in `src/utils/feedSources.ts`, e.g. `/feeds/blog/rss.xml`
+export const getStaticPaths = (() =>
+  getFeedLinks().map((link) => ({
+    params: { feed: link.href.replace(/^\/feeds\//, '') },
+    props: { source: link.source, format: link.format },
+  }))) satisfies GetStaticPaths
+
+export const GET: APIRoute<{ source: FeedSource; format: FeedFormat }> = async ({ props, site, url }) => {
+  const { body, type } = await renderFeed(props.source, props.format, site ?? url)
+  return new Response(body, { headers: { 'Content-Type': type } })
+}
@@ -0,0 +1,16 @@
+import type { APIRoute, GetStaticPaths } from 'astro'
+import themeConfig from '@theme-config'
+import { renderOgImage, type OgImagePage } from '@utils/ogImage'
+import { getOgImagePages } from '@utils/ogImagePages'
+
+// Open Graph images, rendered at build time for the pages from `getOgImagePages`
+export const getStaticPaths = (async () => {
+  const pages = await getOgImagePages()
+  return pages.map((page) => ({
+    params: { path: page.path === '/' ? 'index' : page.path.slice(1) },
+    props: { page },
+  }))
+}) satisfies GetStaticPaths
+
+export const GET: APIRoute<{ page: OgImagePage }> = async ({ props }) =>
+  new Response(await renderOgImage(props.page, themeConfig), { headers: { 'Content-Type': 'image/png' } })
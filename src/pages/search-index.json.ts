@@ -0,0 +1,8 @@
+import type { APIRoute } from 'astro'
+import { getSearchDocuments } from '@utils/searchDocuments'
+
+// The search index, loaded by the search combobox and the launcher when they're first used
+export const GET: APIRoute = async () =>
+  new Response(JSON.stringify(await getSearchDocuments()), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  })
@@ -0,0 +1,578 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import type { Loader } from 'astro/loaders'
+import { glob } from 'astro/loaders'
+import sanitizeHtml from 'sanitize-html'
+import type { BlogConfig, BlogPostField, BlogSourceType } from '@utils/defineThemeConfig'
+import { slugify } from '@utils/slugify'
+
+export type BlogFieldMapping = Partial<Record<BlogPostField, string | string[]>>
+
+/**
+ * A remote post mapped onto the fields of the `posts` collection
+ */
+export interface BlogSourcePost {
+  slug: string
+  title: string
+  description: string
+  body: string
+  pubDate?: string
+  updatedDate?: string
+  author?: string
+  tags: string[]
+  heroImage?: string
+  heroImageAlt: string
+  /**
+   * Old slugs that should redirect to this post
+   */
+  redirectFrom: string[]
+}
+
+export interface BlogSourceRequest {
+  /**
+   * The base URL of the blog API (`BLOG_API_URL`)
+   */
+  url: string
+  /**
+   * The API key, required by Ghost (`BLOG_API_KEY`)
+   */
+  key?: string
+  /**
+   * Dot path to the posts array in the response (JSON source only)
+   */
+  itemsPath?: string
+  /**
+   * The maximum number of posts to fetch
+   */
+  limit: number
+}
+
+/**
+ * Fetches raw posts from a blog API and describes how to map them onto the `posts` collection
+ */
+export interface BlogSourceAdapter {
+  /**
+   * Whether the mapped `body` field contains Markdown or HTML
+   */
+  format: 'markdown' | 'html'
+  /**
+   * Default dot paths for each field, overridable through `blog.fields` in the theme config
+   */
+  fields: BlogFieldMapping
+  /**
+   * Fetch the raw post objects from the API
+   */
+  fetchItems: (request: BlogSourceRequest) => Promise<unknown[]>
+}
+
+interface BlogSourceLoaderOptions {
+  /**
+   * The `blog` section of the theme config
+   */
+  config?: Partial<BlogConfig>
+  /**
+   * The base URL of the blog API
+   */
+  url?: string
+  /**
+   * The API key for sources that need one
+   */
+  key?: string
+  /**
+   * Author used for posts that don't have one
+   */
+  defaultAuthor?: string
+}
+
+/**
+ * Remote posts persisted between builds, see `readBlogCache`
+ */
+interface BlogCache {
+  source: BlogSourceType
+  url: string
+  /**
+   * Digest of the request and field mapping the posts were fetched with, see `getBlogCacheDigest`
+   */
+  digest: string
+  fetchedAt: string
+  /**
+   * When each post without a publish date was first fetched, see `getUndatedPostKey`
+   */
+  firstFetched?: Record<string, string>
+  posts: BlogSourcePost[]
+}
+
+/**
+ * Read a value from an object by dot path, e.g. `_embedded.author.0.name`
+ * @param source - The object to read from
+ * @param path - The dot path to read
+ * @returns The value at the path, or undefined
+ */
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') return undefined
+    return (value as Record<string, unknown>)[key]
+  }, source)
+}
+
+/**
+ * Get the first non-empty value for a field mapping
+ * @param item - The raw post
+ * @param paths - One or more dot paths
+ * @returns The first value that isn't empty
+ */
+function pickField(item: unknown, paths: string | string[] | undefined): unknown {
+  for (const path of [paths ?? []].flat()) {
+    const value = getPath(item, path)
+    if (value !== undefined && value !== null && value !== '') return value
+  }
+  return undefined
+}
+
+/**
+ * Convert a mapped value to text, e.g. numeric ids or WordPress' `{ rendered }` objects
+ * @param value - The mapped value
+ * @returns The value as a string, or undefined
+ */
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return String(value)
+  if (value && typeof value === 'object' && 'rendered' in value) return toText(value.rendered)
+  return undefined
+}
+
+/**
+ * Convert a mapped value to a list of tag names, accepting strings and objects with a `name`
+ * @param value - The mapped value
+ * @returns The tag names
+ */
+function toTags(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : [value]
+  return items
+    .map((item) => (item && typeof item === 'object' && 'name' in item ? toText(item.name) : toText(item)))
+    .filter((tag): tag is string => Boolean(tag))
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#039;': "'",
+  '&nbsp;': ' ',
+  '&hellip;': '…',
+}
+
+/**
+ * Strip tags and decode entities from an HTML string returned by a CMS
+ * @param html - The HTML to convert
+ * @returns Plain text
+ */
+function toPlainText(html: string): string {
+  return sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} })
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&(amp|lt|gt|quot|#039|nbsp|hellip);/g, (entity) => HTML_ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Truncate a string to a maximum length on a word boundary
+ * @param text - The text to truncate
+ * @param length - The maximum length
+ * @returns The truncated text
+ */
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text
+  // Cut mid-word when there's no space to cut at, e.g. in a URL or CJK text
+  const cut = text.lastIndexOf(' ', length)
+  return `${text.slice(0, cut > 0 ? cut : length).trim()}…`
+}
+
+/**
+ * Describe a request URL for error messages, without the query string that can hold the API key
+ * @param url - The requested URL
+ * @returns The origin and path of the URL
+ */
+function describeUrl(url: URL | string): string {
+  const { origin, pathname } = new URL(url)
+  return `${origin}${pathname}`
+}
+
+/**
+ * Fetch JSON from a blog API, throwing on non-2xx responses
+ * @param url - The URL to fetch
+ * @returns The parsed response and the response headers
+ */
+async function fetchJson(url: URL | string): Promise<{ data: unknown; headers: Headers }> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } })
+  if (!response.ok) {
+    throw new Error(`${describeUrl(url)} returned ${response.status} ${response.statusText}`)
+  }
+  return { data: await response.json(), headers: response.headers }
+}
+
+/**
+ * Plain JSON endpoint returning an array of posts. The default mapping matches JSONPlaceholder.
+ */
+export const jsonAdapter: BlogSourceAdapter = {
+  format: 'markdown',
+  fields: {
+    slug: 'slug',
+    title: 'title',
+    description: ['description', 'excerpt', 'body'],
+    body: ['body', 'content'],
+    pubDate: ['pubDate', 'date', 'publishedAt'],
+    updatedDate: ['updatedDate', 'updatedAt'],
+    author: ['author.name', 'author'],
+    tags: 'tags',
+    heroImage: ['heroImage', 'image'],
+    heroImageAlt: ['heroImageAlt', 'imageAlt'],
+  },
+  fetchItems: async ({ url, itemsPath }) => {
+    const { data } = await fetchJson(url)
+    const items = itemsPath ? getPath(data, itemsPath) : data
+    if (!Array.isArray(items)) {
+      throw new Error(
+        `Expected an array of posts${itemsPath ? ` at "${itemsPath}"` : ''} in the response of ${describeUrl(url)}`,
+      )
+    }
+    return items
+  },
+}
+
+/**
+ * WordPress REST API (`/wp-json/wp/v2/posts`), with authors, terms and featured media embedded
+ */
+export const wordpressAdapter: BlogSourceAdapter = {
+  format: 'html',
+  fields: {
+    slug: 'slug',
+    title: 'title.rendered',
+    description: 'excerpt.rendered',
+    body: 'content.rendered',
+    pubDate: 'date_gmt',
+    updatedDate: 'modified_gmt',
+    author: '_embedded.author.0.name',
+    tags: '_embedded.wp:term.1',
+    heroImage: '_embedded.wp:featuredmedia.0.source_url',
+    heroImageAlt: '_embedded.wp:featuredmedia.0.alt_text',
+  },
+  fetchItems: async ({ url, limit }) => {
+    const endpoint = new URL(url.includes('/wp-json/') ? url : `${url.replace(/\/$/, '')}/wp-json/wp/v2/posts`)
+    endpoint.searchParams.set('_embed', '1')
+    endpoint.searchParams.set('per_page', String(Math.min(limit, 100)))
+
+    const items: unknown[] = []
+    for (let page = 1; items.length < limit; page++) {
+      endpoint.searchParams.set('page', String(page))
+      const { data, headers } = await fetchJson(endpoint)
+      if (!Array.isArray(data))
+        throw new Error(`Expected an array of posts in the response of ${describeUrl(endpoint)}`)
+      items.push(...data)
+      if (page >= Number(headers.get('X-WP-TotalPages') ?? 1)) break
+    }
+    return items
+  },
+}
+
+/**
+ * Ghost Content API (`/ghost/api/content/posts/`), which requires a Content API key
+ */
+export const ghostAdapter: BlogSourceAdapter = {
+  format: 'html',
+  fields: {
+    slug: 'slug',
+    title: 'title',
+    description: ['custom_excerpt', 'excerpt'],
+    body: 'html',
+    pubDate: 'published_at',
+    updatedDate: 'updated_at',
+    author: 'primary_author.name',
+    tags: 'tags',
+    heroImage: 'feature_image',
+    heroImageAlt: 'feature_image_alt',
+  },
+  fetchItems: async ({ url, key, limit }) => {
+    if (!key) throw new Error('The Ghost blog source needs a Content API key in BLOG_API_KEY')
+    const endpoint = new URL(url.includes('/ghost/api/') ? url : `${url.replace(/\/$/, '')}/ghost/api/content/posts/`)
+    endpoint.searchParams.set('key', key)
+    endpoint.searchParams.set('include', 'tags,authors')
+    endpoint.searchParams.set('formats', 'html')
+    endpoint.searchParams.set('limit', String(limit))
+
+    const { data } = await fetchJson(endpoint)
+    const items = getPath(data, 'posts')
+    if (!Array.isArray(items)) throw new Error(`Expected a "posts" array in the response of ${describeUrl(endpoint)}`)
+    return items
+  },
+}
+
+export const blogSourceAdapters: Record<Exclude<BlogSourceType, 'local'>, BlogSourceAdapter> = {
+  json: jsonAdapter,
+  wordpress: wordpressAdapter,
+  ghost: ghostAdapter,
+}
+
+/**
+ * Map a raw post onto the fields of the `posts` collection
+ * @param item - The raw post returned by the API
+ * @param fields - The field mapping to apply
+ * @returns The mapped post
+ */
+export function mapBlogPost(item: unknown, fields: BlogFieldMapping): BlogSourcePost {
+  const text = (field: BlogPostField) => toText(pickField(item, fields[field]))
+  const title = toPlainText(text('title') ?? '')
+  const body = text('body') ?? ''
+
+  const slug = text('slug')
+
+  return {
+    slug: slug ?? slugify(title),
+    title,
+    description: truncate(toPlainText(text('description') ?? body), 160),
+    body,
+    pubDate: text('pubDate'),
+    updatedDate: text('updatedDate'),
+    author: text('author'),
+    tags: toTags(pickField(item, fields.tags)),
+    heroImage: text('heroImage'),
+    heroImageAlt: text('heroImageAlt') ?? '',
+    // Posts without a slug used to be published under the first four words of their title
+    redirectFrom: slug ? [] : [legacySlug(text('title') ?? '')],
+  }
+}
+
+/**
+ * The slug earlier versions of the starter derived from a title: its first four words, ASCII only
+ * @param title - The post title
+ * @returns The legacy slug
+ */
+function legacySlug(title: string): string {
+  return title
+    .split(' ')
+    .slice(0, 4)
+    .join(' ')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Identify a post without a publish date across fetches, by the slug and title it was mapped to
+ * @param post - The mapped post, before its slug is made unique
+ * @returns The key of the post
+ */
+function getUndatedPostKey(post: BlogSourcePost): string {
+  return `${post.slug}\n${post.title}`
+}
+
+/**
+ * Make post slugs unique. The oldest post keeps the slug and later ones get a `-2`, `-3`, … suffix, so
+ * publishing a new post never changes the URL of an existing one. Posts without a valid publish date count as
+ * the newest.
+ * @param posts - The mapped posts
+ * @returns The posts with unique slugs and redirects for their legacy slugs
+ */
+export function resolveSlugCollisions(posts: BlogSourcePost[]): BlogSourcePost[] {
+  const getTime = (post: BlogSourcePost) => {
+    const time = new Date(post.pubDate ?? NaN).valueOf()
+    return Number.isNaN(time) ? Infinity : time
+  }
+  const byDate = posts
+    .map((post, index) => ({ post, index, time: getTime(post) }))
+    // Posts with the same date, or both undated, keep their order
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+  const taken = new Set<string>()
+  const slugs = new Map<BlogSourcePost, string>()
+
+  for (const { post } of byDate) {
+    let slug = post.slug
+    for (let suffix = 2; taken.has(slug); suffix++) slug = `${post.slug}-${suffix}`
+    taken.add(slug)
+    slugs.set(post, slug)
+  }
+
+  // A legacy slug shared by several posts used to show the last one loaded, so it keeps pointing there
+  const legacyOwners = new Map(posts.flatMap((post) => post.redirectFrom.map((from) => [from, post] as const)))
+
+  return posts.map((post) => ({
+    ...post,
+    slug: slugs.get(post) ?? post.slug,
+    redirectFrom: post.redirectFrom.filter((from) => legacyOwners.get(from) === post && !taken.has(from)),
+  }))
+}
+
+/**
+ * Fetch and map posts from a remote blog source
+ * @param source - The remote source to read from
+ * @param request - The API URL, key and limits
+ * @param fields - Field mapping overrides from the theme config
+ * @param getFallbackDate - Publish date for a post without one, called before the slugs are made unique
+ * @returns The mapped posts
+ */
+export async function fetchBlogPosts(
+  source: Exclude<BlogSourceType, 'local'>,
+  request: BlogSourceRequest,
+  fields: BlogFieldMapping = {},
+  getFallbackDate?: (post: BlogSourcePost) => string,
+): Promise<BlogSourcePost[]> {
+  const adapter = blogSourceAdapters[source]
+  const items = await adapter.fetchItems(request)
+  const posts = items.slice(0, request.limit).map((item) => mapBlogPost(item, { ...adapter.fields, ...fields }))
+  return resolveSlugCollisions(
+    getFallbackDate ? posts.map((post) => ({ ...post, pubDate: post.pubDate ?? getFallbackDate(post) })) : posts,
+  )
+}
+
+/**
+ * Digest everything that decides which posts are fetched and how they're mapped, including the API key
+ * @param source - The remote source
+ * @param request - The API URL, key and limits
+ * @param fields - Field mapping overrides from the theme config
+ * @returns A hash that changes when any of them change
+ */
+function getBlogCacheDigest(
+  source: Exclude<BlogSourceType, 'local'>,
+  request: BlogSourceRequest,
+  fields: BlogFieldMapping = {},
+): string {
+  return createHash('sha256').update(JSON.stringify({ source, request, fields })).digest('hex')
+}
+
+/**
+ * Read cached remote posts, if any
+ * @param file - The cache file
+ * @returns The cache, or undefined when it is missing or unreadable
+ */
+async function readBlogCache(file: URL): Promise<BlogCache | undefined> {
+  try {
+    const cache = JSON.parse(await readFile(file, 'utf8')) as BlogCache
+    return Array.isArray(cache.posts) ? cache : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Persist fetched remote posts so later builds can reuse them
+ * @param file - The cache file
+ * @param cache - The posts and where they came from
+ */
+async function writeBlogCache(file: URL, cache: BlogCache): Promise<void> {
+  await mkdir(new URL('.', file), { recursive: true })
+  await writeFile(file, JSON.stringify(cache))
+}
+
+/**
+ * Content loader for the `posts` collection. Reads local Markdown/MDX posts or fetches them from a
+ * JSON, WordPress or Ghost API depending on `blog.source` in the theme config. Remote posts are cached for
+ * `blog.cacheTtl` minutes and the cache is used when the API is down; `blog.strict` fails the build instead.
+ * @param options - The blog config, API credentials and default author
+ * @returns An Astro content loader
+ */
+export function blogSourceLoader({ config = {}, url, key, defaultAuthor = '' }: BlogSourceLoaderOptions): Loader {
+  const source = config.source ?? (url ? 'json' : 'local')
+
+  if (source === 'local') {
+    return glob({ pattern: '**/*.{md,mdx}', base: './src/content/posts' })
+  }
+
+  return {
+    name: `blog-${source}-loader`,
+    load: async ({ store, logger, parseData, renderMarkdown, generateDigest, config: settings }) => {
+      if (!url) {
+        const message = `The "${source}" blog source needs BLOG_API_URL to be set`
+        if (config.strict) throw new Error(`${message}.`)
+        logger.warn(`${message}; no posts loaded.`)
+        return
+      }
+
+      const cacheFile = new URL('node_modules/.cache/accessible-astro/blog-posts.json', settings.root)
+      const request = { url, key, itemsPath: config.itemsPath, limit: config.limit ?? 30 }
+      const digest = getBlogCacheDigest(source, request, config.fields)
+      const storedCache = await readBlogCache(cacheFile)
+      // Posts fetched with another request or field mapping aren't used, not even when the API is down
+      const cache = storedCache?.digest === digest ? storedCache : undefined
+      const cacheAge = cache ? (Date.now() - new Date(cache.fetchedAt).valueOf()) / 60_000 : Infinity
+
+      let posts: BlogSourcePost[] = []
+      if (cache && cacheAge < (config.cacheTtl ?? 60)) {
+        logger.info(`Using ${cache.posts.length} cached blog posts from ${cache.fetchedAt}.`)
+        posts = cache.posts
+      } else {
+        try {
+          const fetchedAt = new Date().toISOString()
+          // Posts without a publish date are dated at the time they were first fetched from this API, also when
+          // the key or the field mapping changed since
+          const firstFetched = {
+            ...(storedCache?.source === source && storedCache.url === url ? storedCache.firstFetched : {}),
+          }
+          posts = await fetchBlogPosts(
+            source,
+            request,
+            config.fields,
+            (post) => (firstFetched[getUndatedPostKey(post)] ??= fetchedAt),
+          )
+          await writeBlogCache(cacheFile, { source, url, digest, fetchedAt, firstFetched, posts })
+        } catch (error) {
+          const message = `Failed to fetch blog posts: ${error instanceof Error ? error.message : String(error)}`
+          if (!cache) {
+            if (config.strict) throw new Error(`${message}. No cached posts are available.`)
+            logger.warn(`${message}; no posts loaded.`)
+            return
+          }
+          logger.warn(`${message}; using ${cache.posts.length} cached posts from ${cache.fetchedAt}.`)
+          posts = cache.posts
+        }
+      }
+
+      if (config.strict && posts.length === 0) {
+        throw new Error(`The "${source}" blog source returned no posts.`)
+      }
+
+      const format = blogSourceAdapters[source].format
+
+      store.clear()
+
+      for (const post of posts) {
+        const { slug: id, body, ...fields } = post
+        const data = await parseData({
+          id,
+          data: {
+            ...fields,
+            author: post.author ?? defaultAuthor,
+          },
+        })
+
+        store.set({
+          id,
+          data,
+          body,
+          rendered:
+            format === 'html'
+              ? {
+                  html: sanitizeHtml(body, {
+                    allowedTags: [
+                      ...sanitizeHtml.defaults.allowedTags,
+                      'img',
+                      'figure',
+                      'figcaption',
+                      'picture',
+                      'source',
+                    ],
+                    allowedAttributes: {
+                      ...sanitizeHtml.defaults.allowedAttributes,
+                      img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading'],
+                      source: ['srcset', 'sizes', 'type', 'media'],
+                    },
+                  }),
+                }
+              : await renderMarkdown(body),
+          digest: generateDigest({ id, body, ...fields }),
+        })
+      }
+    },
+  }
+}
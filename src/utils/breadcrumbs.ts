@@ -0,0 +1,77 @@
+import { getRelativeLocaleUrl } from 'astro:i18n'
+import { getLocale, getPathWithoutLocale } from '@utils/i18n'
+import { getNavigationLinks } from '@utils/navigation'
+
+/**
+ * A step in the breadcrumb trail, the last one is the current page
+ */
+export interface Breadcrumb {
+  label: string
+  href: string
+}
+
+export interface BreadcrumbOptions {
+  /**
+   * The locale of the page, e.g. `Astro.currentLocale`
+   */
+  locale?: string
+  /**
+   * Labels by href without locale prefix (`/portfolio/tag/astro`) or by path segment (`astro`), see `getRouteLabels`
+   */
+  labels?: Record<string, string>
+  /**
+   * Label of the current page when nothing else names it, usually its title
+   */
+  currentLabel?: string
+}
+
+/**
+ * Turn a path segment into a label, e.g. `markdown-page` becomes `Markdown Page`
+ * @param segment - A segment of a path, URL-encoded
+ * @returns The label
+ */
+export function formatSegment(segment: string): string {
+  return decodeURIComponent(segment)
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Build the breadcrumb trail of a page from its path. Each step is labelled by `labels`, by the navigation link to it
+ * or, for the current page, as the page number of a paginated list or with `currentLabel`.
+ * @description Path segments that aren't labelled have no page of their own, like `tag` in `/portfolio/tag/astro`,
+ * and are left out of the trail. The current page is always included.
+ * @param pathname - The path of the current page
+ * @param options - The locale, labels and the label of the current page
+ * @returns The trail from the home page to the current page, only the home page on the home page
+ */
+export function getBreadcrumbs(pathname: string, options: BreadcrumbOptions = {}): Breadcrumb[] {
+  const locale = getLocale(options.locale)
+  const homeHref = getRelativeLocaleUrl(locale.code, '')
+  const navigationLabels = new Map(
+    getNavigationLinks(locale.navigation)
+      .filter((link) => !link.external)
+      .map((link) => [link.href.replace(/(.)\/$/, '$1'), link.label]),
+  )
+  const segments = getPathWithoutLocale(pathname, locale.code).split('/').filter(Boolean)
+
+  const breadcrumbs: Breadcrumb[] = [{ label: locale.strings.home, href: homeHref }]
+  segments.forEach((segment, index) => {
+    const path = `/${segments.slice(0, index + 1).join('/')}`
+    const href = `${homeHref.replace(/\/$/, '')}${path}`
+    const isCurrent = index === segments.length - 1
+    const pageNumber = isCurrent && /^\d+$/.test(segment) ? segment : undefined
+
+    const label =
+      options.labels?.[path] ??
+      options.labels?.[segment] ??
+      navigationLabels.get(href) ??
+      (pageNumber && locale.strings.pageNumber.replaceAll('{name}', pageNumber)) ??
+      (isCurrent ? (options.currentLabel ?? formatSegment(segment)) : undefined)
+
+    if (label) breadcrumbs.push({ label, href })
+  })
+
+  return breadcrumbs
+}
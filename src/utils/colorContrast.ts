@@ -0,0 +1,538 @@
+import type { ThemeConfig } from '@utils/defineThemeConfig'
+
+type Rgb = [number, number, number]
+
+/**
+ * The brand colors in the `colors` section of the theme config, each with its own palette
+ */
+export const brandColors = ['primary', 'secondary', 'neutral', 'outline'] as const
+
+export type BrandColor = (typeof brandColors)[number]
+
+/**
+ * Lightness (and optionally chroma) of each palette step, used for the steps the theme config doesn't set
+ */
+export const paletteSteps: Record<BrandColor, Record<number, { lightness: number; chroma?: number }>> = {
+  primary: {
+    100: { lightness: 0.9 },
+    200: { lightness: 0.8 },
+    300: { lightness: 0.7 },
+    400: { lightness: 0.6 },
+    500: { lightness: 0.5 },
+  },
+  secondary: {
+    100: { lightness: 0.9 },
+    200: { lightness: 0.8 },
+    300: { lightness: 0.7 },
+    400: { lightness: 0.6 },
+    500: { lightness: 0.5 },
+  },
+  outline: {
+    100: { lightness: 0.8 },
+    200: { lightness: 0.5 },
+  },
+  neutral: {
+    100: { lightness: 1, chroma: 0 },
+    200: { lightness: 0.95 },
+    300: { lightness: 0.9 },
+    400: { lightness: 0.85 },
+    500: { lightness: 0.8 },
+    600: { lightness: 0.6 },
+    700: { lightness: 0.4 },
+    800: { lightness: 0.3 },
+    900: { lightness: 0.15 },
+  },
+}
+
+/**
+ * A palette color, e.g. `primary-400`
+ */
+export type PaletteColor = `${BrandColor}-${number}`
+
+/**
+ * The generated palette, keyed by palette color, as hex colors
+ */
+export type Palette = Record<PaletteColor, string>
+
+/**
+ * A semantic color of the light and dark color schemes, e.g. `link`
+ */
+export type SemanticColor = keyof ThemeConfig['colors']['light']
+
+export type ContrastLevel = ThemeConfig['contrast']['level']
+
+/**
+ * A foreground and background color the theme puts together
+ */
+export interface ContrastPair {
+  /**
+   * What the pair is used for, e.g. `Link text on the page background`
+   */
+  label: string
+  scheme: 'light' | 'dark'
+  foreground: SemanticColor
+  background: SemanticColor
+  /**
+   * Text needs more contrast than non-text elements such as the focus outline
+   */
+  kind: 'text' | 'non-text'
+}
+
+/**
+ * The pairs used by the color schemes: body text, links and the focus outline on the page background
+ */
+export const contrastPairs: ContrastPair[] = (['light', 'dark'] as const).flatMap((scheme): ContrastPair[] => [
+  { label: 'Text on the page background', scheme, foreground: 'foreground', background: 'background', kind: 'text' },
+  { label: 'Link text on the page background', scheme, foreground: 'link', background: 'background', kind: 'text' },
+  {
+    label: 'Hovered link text on the page background',
+    scheme,
+    foreground: 'linkHover',
+    background: 'background',
+    kind: 'text',
+  },
+  {
+    label: 'Focus outline on the page background',
+    scheme,
+    foreground: 'outline',
+    background: 'background',
+    kind: 'non-text',
+  },
+])
+
+/**
+ * Minimum contrast per level: WCAG 2 ratios for AA (1.4.3, 1.4.11) and AAA (1.4.6), APCA Lc values for body
+ * text and non-text elements
+ */
+export const contrastThresholds: Record<ContrastLevel, Record<ContrastPair['kind'], number>> = {
+  AA: { text: 4.5, 'non-text': 3 },
+  AAA: { text: 7, 'non-text': 3 },
+  APCA: { text: 75, 'non-text': 45 },
+}
+
+/**
+ * Parse a hex color
+ * @param hex - A 3, 4, 6 or 8 digit hex color, alpha is ignored
+ * @returns The red, green and blue channels from 0 to 1
+ */
+function hexToRgb(hex: string): Rgb {
+  let digits = hex.replace('#', '')
+  if (digits.length <= 4) digits = [...digits].map((digit) => digit + digit).join('')
+  return [0, 2, 4].map((index) => parseInt(digits.slice(index, index + 2), 16) / 255) as Rgb
+}
+
+/**
+ * Format a color as hex
+ * @param rgb - The red, green and blue channels from 0 to 1
+ * @returns A 6 digit hex color
+ */
+function rgbToHex(rgb: Rgb): string {
+  return `#${rgb
+    .map((channel) =>
+      Math.round(Math.min(1, Math.max(0, channel)) * 255)
+        .toString(16)
+        .padStart(2, '0'),
+    )
+    .join('')}`
+}
+
+const toLinear = (channel: number) => (channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4)
+const fromLinear = (channel: number) => (channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055)
+
+/**
+ * Convert sRGB to OKLab
+ * @param rgb - The red, green and blue channels from 0 to 1
+ * @returns Lightness and the a and b axes
+ */
+function rgbToOklab(rgb: Rgb): [number, number, number] {
+  const [r, g, b] = rgb.map(toLinear)
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ]
+}
+
+/**
+ * Convert sRGB to OKLCH
+ * @param rgb - The red, green and blue channels from 0 to 1
+ * @returns Lightness, chroma and hue in degrees
+ */
+function rgbToOklch(rgb: Rgb): [number, number, number] {
+  const [lightness, a, b] = rgbToOklab(rgb)
+  return [lightness, Math.hypot(a, b), (Math.atan2(b, a) * 180) / Math.PI]
+}
+
+/**
+ * Convert OKLCH to sRGB without gamut mapping
+ * @param oklch - Lightness, chroma and hue in degrees
+ * @returns The red, green and blue channels, possibly outside 0 to 1
+ */
+function oklchToRgb([lightness, chroma, hue]: [number, number, number]): Rgb {
+  const a = chroma * Math.cos((hue * Math.PI) / 180)
+  const b = chroma * Math.sin((hue * Math.PI) / 180)
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3
+  const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ].map(fromLinear) as Rgb
+}
+
+const inGamut = (rgb: Rgb) => rgb.every((channel) => channel >= -0.0001 && channel <= 1.0001)
+
+/**
+ * Resolve `oklch(from <color> <lightness> c h)` like the browser does, reducing the chroma until the color fits
+ * in sRGB (the CSS Color 4 gamut mapping)
+ * @param hex - The brand color
+ * @param lightness - The OKLCH lightness from 0 to 1
+ * @param chroma - The chroma to use instead of the brand color's
+ * @returns The resulting hex color
+ */
+export function setLightness(hex: string, lightness: number, chroma?: number): string {
+  const [, brandChroma, hue] = rgbToOklch(hexToRgb(hex))
+  let high = chroma ?? brandChroma
+  if (inGamut(oklchToRgb([lightness, high, hue]))) return rgbToHex(oklchToRgb([lightness, high, hue]))
+
+  let low = 0
+  while (high - low > 0.0001) {
+    const middle = (low + high) / 2
+    if (inGamut(oklchToRgb([lightness, middle, hue]))) low = middle
+    else high = middle
+  }
+  return rgbToHex(oklchToRgb([lightness, low, hue]))
+}
+
+/**
+ * Generate the color palette from the brand colors, using the steps set in the theme config as they are
+ * @param colors - The `colors` section of the theme config
+ * @returns The palette as hex colors
+ */
+export function generatePalette(colors: ThemeConfig['colors']): Palette {
+  const palette: Partial<Palette> = {}
+  for (const color of brandColors) {
+    const { base, steps: overrides } = colors[color]
+    for (const [step, { lightness, chroma }] of Object.entries(paletteSteps[color])) {
+      const override = (overrides as Partial<Record<string, string>>)[step]
+      palette[`${color}-${step}` as PaletteColor] = override ?? setLightness(base, lightness, chroma)
+    }
+  }
+  return palette as Palette
+}
+
+/**
+ * Check whether a value names a step of the palette
+ * @param value - A semantic color value from the theme config
+ * @returns True for palette colors such as `primary-400`, false for hex colors
+ */
+export function isPaletteColor(value: string): value is PaletteColor {
+  const [color, step] = value.split('-')
+  return brandColors.includes(color as BrandColor) && step in paletteSteps[color as BrandColor]
+}
+
+/**
+ * Resolve a semantic color value to a hex color
+ * @param value - A palette color such as `primary-400`, or a hex color
+ * @param palette - The generated palette
+ * @returns The hex color
+ */
+export function resolveColor(value: string, palette: Palette): string {
+  return isPaletteColor(value) ? palette[value] : value
+}
+
+/**
+ * Check whether a value is a hex color
+ * @param value - The value to check
+ * @returns True for 3, 4, 6 and 8 digit hex colors
+ */
+export function isHexColor(value: string): boolean {
+  return /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)
+}
+
+/**
+ * Write a hex color with 6 lowercase digits, as color inputs need
+ * @param hex - A 3, 4, 6 or 8 digit hex color, alpha is dropped
+ * @returns The 6 digit hex color
+ */
+export function formatHex(hex: string): string {
+  return rgbToHex(hexToRgb(hex))
+}
+
+/**
+ * Calculate the WCAG 2 contrast ratio of two colors
+ * @param foreground - A hex color
+ * @param background - A hex color
+ * @returns The contrast ratio from 1 to 21
+ */
+export function getContrastRatio(foreground: string, background: string): number {
+  const luminance = (hex: string) => {
+    const [r, g, b] = hexToRgb(hex).map(toLinear)
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b
+  }
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+/**
+ * Calculate the APCA lightness contrast (APCA-W3 0.0.98G-4g) of text on a background
+ * @param foreground - The text color as hex
+ * @param background - The background color as hex
+ * @returns The absolute Lc value from 0 to about 106
+ */
+export function getApcaContrast(foreground: string, background: string): number {
+  const luminance = (hex: string) => {
+    const [r, g, b] = hexToRgb(hex).map((channel) => channel ** 2.4)
+    const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b
+    return y < 0.022 ? y + (0.022 - y) ** 1.414 : y
+  }
+  const text = luminance(foreground)
+  const back = luminance(background)
+  if (Math.abs(back - text) < 0.0005) return 0
+
+  if (back > text) {
+    const contrast = (back ** 0.56 - text ** 0.57) * 1.14
+    return contrast < 0.1 ? 0 : (contrast - 0.027) * 100
+  }
+  const contrast = (back ** 0.65 - text ** 0.62) * 1.14
+  return contrast > -0.1 ? 0 : Math.abs(contrast + 0.027) * 100
+}
+
+/**
+ * Measure the contrast of two colors the way a level does
+ * @param foreground - The foreground color as hex
+ * @param background - The background color as hex
+ * @param level - WCAG levels use the contrast ratio, APCA the Lc value
+ * @returns The contrast ratio or Lc value
+ */
+export function getContrast(foreground: string, background: string, level: ContrastLevel): number {
+  return level === 'APCA' ? getApcaContrast(foreground, background) : getContrastRatio(foreground, background)
+}
+
+/**
+ * Format a contrast for people to read
+ * @param contrast - The contrast ratio or Lc value
+ * @param level - The level it was measured for
+ * @returns E.g. `4.61:1` or `Lc 76.3`
+ */
+export function formatContrast(contrast: number, level: ContrastLevel): string {
+  return level === 'APCA' ? `Lc ${contrast.toFixed(1)}` : `${contrast.toFixed(2)}:1`
+}
+
+/**
+ * Find the shade of a foreground color closest to it that has enough contrast with the background, changing only
+ * its OKLCH lightness so the hue stays the same
+ * @param foreground - The foreground color as hex
+ * @param background - The background color as hex
+ * @param level - The level to meet
+ * @param required - The contrast to meet, body text of the level by default
+ * @returns The hex color, or `undefined` when no lightness gets there
+ */
+export function findPassingShade(
+  foreground: string,
+  background: string,
+  level: ContrastLevel,
+  required = contrastThresholds[level].text,
+): string | undefined {
+  const [lightness] = rgbToOklch(hexToRgb(foreground))
+  let closest: { shade: string; distance: number } | undefined
+
+  for (let step = 0; step <= 200; step++) {
+    const shade = setLightness(foreground, step / 200)
+    const distance = Math.abs(step / 200 - lightness)
+    if (getContrast(shade, background, level) >= required && (!closest || distance < closest.distance)) {
+      closest = { shade, distance }
+    }
+  }
+  return closest?.shade
+}
+
+/**
+ * Format the `colors` section of the theme config as code to paste into `theme.config.ts`
+ * @param colors - The `colors` section
+ * @returns The `colors: { … }` property, brand colors without steps as a plain hex color
+ */
+export function formatColorsConfig(colors: ThemeConfig['colors']): string {
+  const quote = (value: string) => `'${value}'`
+  const object = (entries: [string, string][], indent: string) =>
+    `{\n${entries.map(([key, value]) => `${indent}  ${key}: ${value},`).join('\n')}\n${indent}}`
+
+  const lines = [
+    ...brandColors.map((color): [string, string] => {
+      const { base, steps } = colors[color]
+      const stepEntries = Object.entries(steps as Record<string, string>).map(([step, hex]): [string, string] => [
+        step,
+        quote(hex),
+      ])
+      return [
+        color,
+        stepEntries.length
+          ? object(
+              [
+                ['base', quote(base)],
+                ['steps', object(stepEntries, '      ')],
+              ],
+              '    ',
+            )
+          : quote(base),
+      ]
+    }),
+    ...(['light', 'dark'] as const).map((scheme): [string, string] => [
+      scheme,
+      object(
+        Object.entries(colors[scheme]).map(([name, value]): [string, string] => [name, quote(value)]),
+        '    ',
+      ),
+    ]),
+  ]
+  return `colors: ${object(lines, '  ')},`
+}
+
+/**
+ * The color vision deficiencies the contrast checker simulates
+ */
+export const colorVisionDeficiencies = ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'] as const
+
+export type ColorVisionDeficiency = (typeof colorVisionDeficiencies)[number]
+
+/**
+ * Simulation matrices on linear RGB from Machado, Oliveira and Fernandes (2009), at full severity
+ */
+const dichromacyMatrices: Record<Exclude<ColorVisionDeficiency, 'achromatopsia'>, [Rgb, Rgb, Rgb]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+}
+
+/**
+ * Colors closer than this OKLab distance are hard to tell apart, adjacent neutral steps are about 0.05 apart
+ */
+export const minimumColorDifference = 0.04
+
+/**
+ * Simulate how a color looks with a color vision deficiency
+ * @param hex - The color as hex
+ * @param deficiency - The deficiency to simulate, achromatopsia keeps only the luminance
+ * @returns The simulated color as hex
+ */
+export function simulateColorVision(hex: string, deficiency: ColorVisionDeficiency): string {
+  const linear = hexToRgb(hex).map(toLinear) as Rgb
+  const simulated =
+    deficiency === 'achromatopsia'
+      ? (Array(3).fill(0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2]) as Rgb)
+      : dichromacyMatrices[deficiency].map((row) => row.reduce((sum, weight, index) => sum + weight * linear[index], 0))
+  return rgbToHex(simulated.map((channel) => fromLinear(Math.min(1, Math.max(0, channel)))) as Rgb)
+}
+
+/**
+ * Measure how different two colors look, as their distance in OKLab
+ * @param first - A hex color
+ * @param second - A hex color
+ * @returns The distance, 0 for the same color and about 1 for black and white
+ */
+export function getColorDifference(first: string, second: string): number {
+  const [l1, a1, b1] = rgbToOklab(hexToRgb(first))
+  const [l2, a2, b2] = rgbToOklab(hexToRgb(second))
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2)
+}
+
+/**
+ * Two palette colors that can be told apart with typical color vision, but not with a color vision deficiency
+ */
+export interface IndistinguishablePair {
+  colors: [PaletteColor, PaletteColor]
+  /**
+   * The simulated colors, in the same order
+   */
+  simulated: [string, string]
+  difference: number
+}
+
+/**
+ * Find the palette colors that become hard to tell apart with a color vision deficiency, so they shouldn't be the
+ * only way to tell things apart
+ * @param palette - The generated palette
+ * @param deficiency - The deficiency to simulate
+ * @returns The pairs, the least different first
+ */
+export function findIndistinguishablePairs(
+  palette: Palette,
+  deficiency: ColorVisionDeficiency,
+): IndistinguishablePair[] {
+  const entries = Object.entries(palette) as [PaletteColor, string][]
+  const simulated = entries.map(([, hex]) => simulateColorVision(hex, deficiency))
+
+  return entries
+    .flatMap(([color, hex], index) =>
+      entries.slice(index + 1).map(([otherColor, otherHex], offset): IndistinguishablePair | undefined => {
+        const otherIndex = index + 1 + offset
+        const difference = getColorDifference(simulated[index], simulated[otherIndex])
+        if (difference >= minimumColorDifference || getColorDifference(hex, otherHex) < minimumColorDifference) {
+          return undefined
+        }
+        return { colors: [color, otherColor], simulated: [simulated[index], simulated[otherIndex]], difference }
+      }),
+    )
+    .filter((pair) => pair !== undefined)
+    .sort((a, b) => a.difference - b.difference)
+}
+
+/**
+ * A contrast pair that doesn't meet the configured level
+ */
+export interface ContrastFailure {
+  pair: ContrastPair
+  contrast: number
+  required: number
+  message: string
+}
+
+/**
+ * Check the contrast of the pairs the theme uses against a WCAG level or APCA
+ * @param colors - The `colors` section of the theme config
+ * @param level - The level to check against
+ * @returns The failing pairs, with a message naming the colors and the contrast
+ */
+export function checkThemeContrast(colors: ThemeConfig['colors'], level: ContrastLevel): ContrastFailure[] {
+  const palette = generatePalette(colors)
+
+  return contrastPairs.flatMap((pair) => {
+    const foregroundValue = colors[pair.scheme][pair.foreground]
+    const backgroundValue = colors[pair.scheme][pair.background]
+    const foreground = resolveColor(foregroundValue, palette)
+    const background = resolveColor(backgroundValue, palette)
+    // Colors that aren't valid are reported by the theme config schema
+    if (![foreground, background].every(isHexColor)) return []
+
+    const required = contrastThresholds[level][pair.kind]
+    const contrast = getContrast(foreground, background, level)
+    if (contrast >= required) return []
+
+    const format = (value: number) => formatContrast(value, level)
+    const describe = (value: string, hex: string) => (value === hex ? hex : `${value} ${hex}`)
+    return [
+      {
+        pair,
+        contrast,
+        required,
+        message: `${pair.label} in ${pair.scheme} mode (${describe(foregroundValue, foreground)} on ${describe(backgroundValue, background)}) has a contrast of ${format(contrast)}, ${level} needs ${format(required)}`,
+      },
+    ]
+  })
+}
@@ -0,0 +1,77 @@
+import { z } from 'astro/zod'
+
+/**
+ * Pattern for the phone number field, used by the client-side validation and the server-side schema
+ */
+export const contactPhonePattern = '^[0-9]{10}$'
+
+/**
+ * Options of the "What are you interested in?" checkbox group
+ */
+export const contactInterests = [
+  { value: 'a11y', label: 'Accessibility and inclusive design' },
+  { value: 'wcag', label: 'WCAG compliance and testing' },
+  { value: 'sr', label: 'Screen reader optimization' },
+  { value: 'keyboard', label: 'Keyboard navigation' },
+] as const
+
+/**
+ * Options of the "Your experience level" radio group
+ */
+export const contactExperienceLevels = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+] as const
+
+type OptionValues<T extends readonly { value: string }[]> = [T[number]['value'], ...T[number]['value'][]]
+
+/**
+ * Server-side validation of the contact form. The messages are shown next to the fields when a
+ * submission is rejected, so they match the `data-validation` messages of the form.
+ */
+export const contactFormSchema = z.object({
+  firstname: z
+    .string('We need your first name to address you correctly')
+    .trim()
+    .min(1, 'We need your first name to address you correctly'),
+  email: z.email('Please provide an email address, for example houston@astro.build'),
+  phone: z
+    .string('Please provide a valid phone number')
+    .trim()
+    .regex(new RegExp(contactPhonePattern), 'Please provide a valid phone number of 10 digits'),
+  message: z.string('Please write a message').trim().min(1, 'Please write a message'),
+  interests: z
+    .array(z.enum(contactInterests.map(({ value }) => value) as OptionValues<typeof contactInterests>))
+    .min(1, 'Please select at least one area of interest'),
+  experience: z.enum(
+    contactExperienceLevels.map(({ value }) => value) as OptionValues<typeof contactExperienceLevels>,
+    'Please select your experience level',
+  ),
+  newsletter: z.boolean().default(false),
+  updates: z.boolean().default(false),
+})
+
+export type ContactSubmission = z.infer<typeof contactFormSchema>
+
+/**
+ * Format a submission as plain text, e.g. for the body of an email
+ * @param submission - The validated submission
+ * @returns The submission as labelled lines
+ */
+export function formatContactSubmission(submission: ContactSubmission): string {
+  const label = (options: readonly { value: string; label: string }[], value: string) =>
+    options.find((option) => option.value === value)?.label ?? value
+
+  return [
+    `First name: ${submission.firstname}`,
+    `Email address: ${submission.email}`,
+    `Phone number: ${submission.phone}`,
+    `Interests: ${submission.interests.map((value) => label(contactInterests, value)).join(', ')}`,
+    `Experience level: ${label(contactExperienceLevels, submission.experience)}`,
+    `Subscribe to newsletter: ${submission.newsletter ? 'yes' : 'no'}`,
+    `Receive updates: ${submission.updates ? 'yes' : 'no'}`,
+    '',
+    submission.message,
+  ].join('\n')
+}
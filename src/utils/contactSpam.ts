@@ -0,0 +1,169 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { z } from 'astro/zod'
+import { CONTACT_FORM_SECRET } from 'astro:env/server'
+import themeConfig from '@theme-config'
+
+/**
+ * Name of the honeypot field. Something bots like to fill in, and people never see.
+ */
+export const contactHoneypotName = 'website'
+
+/**
+ * Name of the hidden field with the signed time the form was rendered
+ */
+export const contactTokenName = 'formToken'
+
+/**
+ * Fields added to the contact form by the spam protection, stripped before the submission is delivered
+ */
+export const contactSpamSchema = z.object({
+  [contactHoneypotName]: z.string().optional(),
+  [contactTokenName]: z.string().optional(),
+})
+
+export type ContactSpamFields = z.infer<typeof contactSpamSchema>
+
+/**
+ * Why a submission was rejected, with a message that makes sense when read out on its own
+ */
+export interface ContactSpamRejection {
+  code: 'BAD_REQUEST' | 'TOO_MANY_REQUESTS'
+  message: string
+}
+
+const { honeypot, minSubmitTime, maxSubmitTime, rateLimit } = themeConfig.contact.spamProtection
+
+// Without a configured secret tokens are only valid until the server restarts
+const secret = CONTACT_FORM_SECRET ?? randomBytes(32).toString('hex')
+
+// Submission times per IP address, kept in memory
+const submissions = new Map<string, number[]>()
+
+/**
+ * Check whether the honeypot field is enabled
+ * @returns True when the form should render the honeypot field
+ */
+export function isContactHoneypotEnabled(): boolean {
+  return honeypot
+}
+
+/**
+ * Sign a timestamp
+ * @param timestamp - Milliseconds since the epoch
+ * @returns The HMAC signature
+ */
+function sign(timestamp: string): string {
+  return createHmac('sha256', secret).update(timestamp).digest('hex')
+}
+
+/**
+ * Create the token for the hidden time-to-submit field
+ * @returns The current time and its signature
+ */
+export function createContactFormToken(): string {
+  const timestamp = Date.now().toString()
+  return `${timestamp}.${sign(timestamp)}`
+}
+
+/**
+ * Read the time the form was rendered from a token
+ * @param token - The submitted token
+ * @returns The timestamp, or undefined when the token is missing or tampered with
+ */
+function readContactFormToken(token?: string): number | undefined {
+  const [timestamp, signature] = token?.split('.') ?? []
+  if (!timestamp || !signature) return undefined
+
+  const expected = Buffer.from(sign(timestamp))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined
+
+  return Number(timestamp)
+}
+
+/**
+ * Describe a number of seconds for people, in minutes when it's a whole number of them
+ * @param seconds - The number of seconds
+ * @returns The duration, e.g. `1 minute` or `90 seconds`
+ */
+function formatDuration(seconds: number): string {
+  if (seconds >= 60 && seconds % 60 === 0) {
+    const minutes = seconds / 60
+    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`
+  }
+  return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`
+}
+
+/**
+ * Record a submission for an IP address and check it against the rate limit
+ * @param clientAddress - The IP address of the visitor
+ * @returns The minutes until a new submission is allowed, or 0 when this one is allowed
+ */
+function takeRateLimit(clientAddress: string): number {
+  if (!rateLimit) return 0
+
+  const now = Date.now()
+  const windowMs = rateLimit.window * 60_000
+  for (const [address, times] of submissions) {
+    const recent = times.filter((time) => now - time < windowMs)
+    if (recent.length) submissions.set(address, recent)
+    else submissions.delete(address)
+  }
+
+  const times = submissions.get(clientAddress) ?? []
+  if (times.length >= rateLimit.max) {
+    return Math.max(1, Math.ceil((times[0] + windowMs - now) / 60_000))
+  }
+
+  submissions.set(clientAddress, [...times, now])
+  return 0
+}
+
+/**
+ * Check a submission against the spam protection configured in `contact.spamProtection`
+ * @param fields - The honeypot and token fields of the submission
+ * @param clientAddress - The IP address of the visitor
+ * @returns The reason the submission is rejected, or undefined when it's allowed
+ */
+export function checkContactSpam(fields: ContactSpamFields, clientAddress: string): ContactSpamRejection | undefined {
+  const retryAfter = takeRateLimit(clientAddress)
+  if (retryAfter) {
+    return {
+      code: 'TOO_MANY_REQUESTS',
+      message: `Your message was not sent because several messages were sent from your connection in a short time. Please try again in ${retryAfter} ${retryAfter === 1 ? 'minute' : 'minutes'}.`,
+    }
+  }
+
+  if (honeypot && fields[contactHoneypotName]) {
+    return {
+      code: 'BAD_REQUEST',
+      message:
+        'Your message was not sent because a field that should stay empty was filled in, possibly by autofill. Please send the form again.',
+    }
+  }
+
+  if (minSubmitTime > 0 || maxSubmitTime > 0) {
+    const renderedAt = readContactFormToken(fields[contactTokenName])
+    if (renderedAt === undefined) {
+      return {
+        code: 'BAD_REQUEST',
+        message:
+          'Your message was not sent because the form could not be verified. Please check your answers and send it again.',
+      }
+    }
+    if (maxSubmitTime > 0 && Date.now() - renderedAt > maxSubmitTime * 1000) {
+      return {
+        code: 'BAD_REQUEST',
+        message: `Your message was not sent because the form has expired, it was loaded more than ${formatDuration(maxSubmitTime)} ago. Please check your answers and send it again.`,
+      }
+    }
+    if (Date.now() - renderedAt < minSubmitTime * 1000) {
+      return {
+        code: 'BAD_REQUEST',
+        message: `Your message was not sent because the form was submitted faster than a person can fill it in. Please wait ${formatDuration(minSubmitTime)}, check your answers and send it again.`,
+      }
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,124 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import nodemailer from 'nodemailer'
+import { CONTACT_WEBHOOK_URL, SMTP_HOST, SMTP_PASSWORD, SMTP_PORT, SMTP_USER } from 'astro:env/server'
+import themeConfig from '@theme-config'
+import { formatContactSubmission, type ContactSubmission } from '@utils/contactForm'
+
+/**
+ * Delivers validated contact form submissions
+ */
+export interface ContactTransport {
+  send: (submission: ContactSubmission) => Promise<void>
+}
+
+interface SmtpTransportOptions {
+  host: string
+  port: number
+  user?: string
+  password?: string
+  from: string
+  to: string
+  subject: string
+}
+
+/**
+ * Send submissions by email over SMTP
+ * @param options - The SMTP server, credentials and addresses
+ * @returns A contact transport
+ */
+export function smtpTransport({
+  host,
+  port,
+  user,
+  password,
+  from,
+  to,
+  subject,
+}: SmtpTransportOptions): ContactTransport {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: password } : undefined,
+  })
+
+  return {
+    send: async (submission) => {
+      await transporter.sendMail({
+        from,
+        to,
+        replyTo: submission.email,
+        subject,
+        text: formatContactSubmission(submission),
+      })
+    },
+  }
+}
+
+/**
+ * Post submissions as JSON to a webhook, e.g. a form service or automation platform
+ * @param url - The webhook URL
+ * @returns A contact transport
+ */
+export function webhookTransport(url: string): ContactTransport {
+  return {
+    send: async (submission) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...submission, receivedAt: new Date().toISOString() }),
+      })
+      if (!response.ok) {
+        throw new Error(`Contact webhook returned ${response.status} ${response.statusText}`)
+      }
+    },
+  }
+}
+
+/**
+ * Append submissions to a JSON Lines file, useful for local development and tests
+ * @param filePath - The file to append to, relative to the working directory
+ * @returns A contact transport
+ */
+export function fileTransport(filePath: string): ContactTransport {
+  const file = resolve(filePath)
+
+  return {
+    send: async (submission) => {
+      await mkdir(dirname(file), { recursive: true })
+      await appendFile(file, `${JSON.stringify({ ...submission, receivedAt: new Date().toISOString() })}\n`)
+    },
+  }
+}
+
+/**
+ * Create the transport configured in `contact.transport` in the theme config
+ * @returns The contact transport
+ */
+export function getContactTransport(): ContactTransport {
+  const { transport = 'file', to, from, subject = 'New contact form submission', filePath } = themeConfig.contact ?? {}
+
+  switch (transport) {
+    case 'smtp':
+      if (!SMTP_HOST || !to) {
+        throw new Error('The smtp contact transport needs SMTP_HOST and `contact.to` in theme.config.ts')
+      }
+      return smtpTransport({
+        host: SMTP_HOST,
+        port: SMTP_PORT ?? 587,
+        user: SMTP_USER,
+        password: SMTP_PASSWORD,
+        from: from ?? to,
+        to,
+        subject,
+      })
+    case 'webhook':
+      if (!CONTACT_WEBHOOK_URL) {
+        throw new Error('The webhook contact transport needs CONTACT_WEBHOOK_URL')
+      }
+      return webhookTransport(CONTACT_WEBHOOK_URL)
+    case 'file':
+      return fileTransport(filePath ?? 'contact-submissions.jsonl')
+  }
+}
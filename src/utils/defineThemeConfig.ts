@@ -1,94 +1,761 @@
 import type { ImageMetadata } from 'astro'
+import { z } from 'astro/zod'
+import { type BrandColor, checkThemeContrast, isPaletteColor, paletteSteps } from '@utils/colorContrast'
 
-export type NavigationItem =
-  | {
-      type?: 'link'
-      label: string
-      href: string
-      external?: boolean
-      highlight?: boolean
-      icon?: string
-      excludeFromLauncher?: boolean
-    }
-  | {
-      type: 'dropdown'
-      label: string
-      icon?: string
-      items: {
-        label: string
-        href: string
-        external?: boolean
-      }[]
-      excludeFromLauncher?: boolean
-    }
+/**
+ * A root-relative path (`/blog`), an anchor (`#main`) or an absolute URL (`https://…`, `mailto:…`)
+ */
+const hrefSchema = z
+  .string()
+  .trim()
+  .refine((href) => href.startsWith('/') || href.startsWith('#') || URL.canParse(href), {
+    error: 'Use a path starting with `/`, an anchor starting with `#` or a full URL such as `https://example.com`',
+  })
+
+/**
+ * An Iconify icon name as used by `astro-icon`
+ */
+const iconSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*:[a-z0-9]+(-[a-z0-9]+)*$/, 'Use an Iconify icon name such as `lucide:github`')
 
-export type SocialItem = {
-  label: string
-  href: string
-  icon: string
-  external?: boolean
+/**
+ * A hex color as used by the palette generation
+ */
+const hexColorSchema = z
+  .string()
+  .regex(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i, 'Use a hex color such as `#d648ff`')
+
+/**
+ * A brand color: the base color its palette steps are generated from, or the base color with some steps set
+ * explicitly, for brand colors whose generated steps don't work out
+ * @param color - The brand color, which decides the available steps
+ * @param defaultColor - The base color when none is configured
+ */
+function brandColorSchema(color: BrandColor, defaultColor: string) {
+  const steps = Object.keys(paletteSteps[color]) as [string, ...string[]]
+  return z
+    .union([
+      hexColorSchema,
+      z.object({
+        base: hexColorSchema,
+        steps: z.partialRecord(z.enum(steps), hexColorSchema).default({}),
+      }),
+    ])
+    .default(defaultColor)
+    .transform((value) => (typeof value === 'string' ? { base: value, steps: {} } : value))
 }
 
-export type ThemeConfig = {
-  name: string
-  id: string
-  logo?: ImageMetadata | null
-  seo: {
-    title: string
-    subtitle?: string
-    description?: string
-    author?: string
-    image?: ImageMetadata | string | null
-  }
-  colors: {
-    primary: string
-    secondary: string
-    neutral: string
-    outline: string
+/**
+ * A color of the light or dark color scheme: a palette color such as `primary-400`, or a hex color
+ */
+const semanticColorSchema = z
+  .string()
+  .refine((value) => isPaletteColor(value) || hexColorSchema.safeParse(value).success, {
+    error: 'Use a palette color such as `primary-400` or `neutral-900`, or a hex color such as `#d648ff`',
+  })
+
+/**
+ * The semantic colors of a color scheme, each one sets a CSS custom property, e.g. `link` sets `--link-color`
+ * @param defaults - The palette colors of the scheme in the starter's design
+ */
+function colorSchemeSchema(defaults: Record<string, string>) {
+  return z
+    .object({
+      foreground: semanticColorSchema.default(defaults.foreground),
+      background: semanticColorSchema.default(defaults.background),
+      link: semanticColorSchema.default(defaults.link),
+      linkHover: semanticColorSchema.default(defaults.linkHover),
+      border: semanticColorSchema.default(defaults.border),
+      borderSubtle: semanticColorSchema.default(defaults.borderSubtle),
+      outline: semanticColorSchema.default(defaults.outline),
+    })
+    .prefault({})
+}
+
+/**
+ * Design token values keyed by name, the starter's values are kept for names that aren't set
+ * @param defaults - The starter's values
+ */
+function tokenScaleSchema(defaults: Record<string, string>) {
+  return z
+    .record(
+      z.string().regex(/^-?[a-z0-9]+(-[a-z0-9]+)*$/i, 'Use a token name such as `m`, `2xl` or `-1`'),
+      z.string().min(1),
+    )
+    .default({})
+    .transform((values) => ({ ...defaults, ...values }))
+}
+
+const imageSchema = z.custom<ImageMetadata>(
+  // SVG imports are components that carry the image metadata as properties
+  (value) => (typeof value === 'object' || typeof value === 'function') && value !== null && 'src' in value,
+  'Import the image, e.g. `import logo from "@assets/img/logo.svg"`',
+)
+
+const navigationLinkSchema = z.object({
+  type: z.literal('link').optional(),
+  label: z.string().min(1),
+  href: hrefSchema,
+  /**
+   * Shown below the label in dropdowns and mega menus
+   */
+  description: z.string().optional(),
+  external: z.boolean().optional(),
+  highlight: z.boolean().optional(),
+  icon: iconSchema.optional(),
+  excludeFromLauncher: z.boolean().optional(),
+})
+
+/**
+ * A disclosure button with a list of links, its items can be dropdowns themselves for nested submenus
+ */
+const navigationDropdownSchema = z.object({
+  type: z.literal('dropdown'),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  icon: iconSchema.optional(),
+  get items() {
+    return z
+      .array(z.discriminatedUnion('type', [navigationLinkSchema, navigationDropdownSchema]))
+      .min(1, 'Add at least one item to the dropdown, or turn it into a link')
+  },
+  excludeFromLauncher: z.boolean().optional(),
+})
+
+/**
+ * A disclosure button with a wide panel of headed sections of links, and optionally a featured link
+ */
+const navigationMegaMenuSchema = z.object({
+  type: z.literal('mega'),
+  label: z.string().min(1),
+  icon: iconSchema.optional(),
+  sections: z
+    .array(
+      z.object({
+        heading: z.string().min(1),
+        items: z.array(navigationLinkSchema).min(1, 'Add at least one link to the section'),
+      }),
+    )
+    .min(1, 'Add at least one section to the mega menu, or turn it into a dropdown'),
+  featured: navigationLinkSchema
+    .extend({
+      image: imageSchema.optional(),
+      /**
+       * Text alternative of the image, leave it empty when the image is decorative
+       */
+      imageAlt: z.string().optional(),
+    })
+    .optional(),
+  excludeFromLauncher: z.boolean().optional(),
+})
+
+const navigationItemsSchema = z.array(
+  z.discriminatedUnion('type', [navigationLinkSchema, navigationDropdownSchema, navigationMegaMenuSchema]),
+)
+
+const socialItemSchema = z.object({
+  label: z.string().min(1),
+  href: hrefSchema,
+  icon: iconSchema,
+  external: z.boolean().optional(),
+})
+
+const footerLinkSchema = z.object({
+  label: z.string().min(1),
+  href: hrefSchema,
+  external: z.boolean().optional(),
+})
+
+const footerConfigSchema = z.object({
+  /**
+   * Groups of links, each one a `nav` landmark named by its heading. Without columns the footer lists the internal
+   * links of the navigation.
+   */
+  columns: z
+    .array(
+      z.object({
+        heading: z.string().min(1),
+        links: z.array(footerLinkSchema).min(1, 'Add at least one link to the column'),
+      }),
+    )
+    .default([]),
+  /**
+   * Links to the privacy policy, accessibility statement, imprint and such, shown next to the copyright notice
+   */
+  legal: z.array(footerLinkSchema).default([]),
+  /**
+   * Contact details, shown in an `address` element
+   */
+  contact: z
+    .object({
+      /**
+       * @default 'Contact', the `contact` UI string
+       */
+      heading: z.string().min(1).optional(),
+      /**
+       * The lines of the postal address
+       */
+      address: z.array(z.string()).default([]),
+      email: z.email().optional(),
+      phone: z.string().optional(),
+    })
+    .optional(),
+  /**
+   * Name after the copyright sign, defaults to `name`
+   */
+  copyrightHolder: z.string().min(1).optional(),
+})
+
+const feedFormatSchema = z.enum(['rss', 'atom', 'json'])
+
+const feedsConfigSchema = z.object({
+  /**
+   * Feeds of the blog and the portfolio, served from `/feeds/blog/` and `/feeds/portfolio/`: RSS 2.0 (`rss.xml`),
+   * Atom (`atom.xml`) and JSON Feed (`feed.json`). Leave it empty for no feeds.
+   * @default ['rss', 'atom', 'json']
+   */
+  formats: z.array(feedFormatSchema).default(['rss', 'atom', 'json']),
+  /**
+   * Include the whole post or project (`full`), or only its description (`summary`)
+   * @default 'summary'
+   */
+  content: z.enum(['full', 'summary']).default('summary'),
+  /**
+   * Number of entries per feed, the newest first
+   * @default 20
+   */
+  limit: z.number().int().min(1).default(20),
+})
+
+const ogImageConfigSchema = z.object({
+  /**
+   * Generate an Open Graph image at build time for every blog post, project and Markdown or MDX page, used when the
+   * page doesn't set an `image` of its own
+   * @default true
+   */
+  enabled: z.boolean().default(true),
+  /**
+   * Layout of the image, see `ogImageTemplates` in `src/utils/ogImage.ts`: `default` puts the logo and site name
+   * above the title, `centered` below it
+   * @default 'default'
+   */
+  template: z.enum(['default', 'centered']).default('default'),
+  /**
+   * Colors of the image, as palette colors or hex colors
+   */
+  background: semanticColorSchema.default('neutral-900'),
+  foreground: semanticColorSchema.default('neutral-100'),
+  accent: semanticColorSchema.default('primary-300'),
+})
+
+const blogSourceTypeSchema = z.enum(['local', 'json', 'wordpress', 'ghost'])
+
+const blogPostFieldSchema = z.enum([
+  'slug',
+  'title',
+  'description',
+  'body',
+  'pubDate',
+  'updatedDate',
+  'author',
+  'tags',
+  'heroImage',
+  'heroImageAlt',
+])
+
+const blogConfigSchema = z.object({
+  /**
+   * Where blog posts come from. Remote sources read `BLOG_API_URL` (and `BLOG_API_KEY` for Ghost).
+   * Defaults to `json` when `BLOG_API_URL` is set and to `local` (`src/content/posts`) otherwise.
+   */
+  source: blogSourceTypeSchema.optional(),
+  /**
+   * Dot paths into a remote post, e.g. `{ author: 'meta.author.name' }`. Pass an array to use the first
+   * non-empty value. Overrides the field mapping of the chosen adapter.
+   */
+  fields: z.partialRecord(blogPostFieldSchema, z.union([z.string(), z.array(z.string())])).optional(),
+  /**
+   * Dot path to the posts array in a JSON response, e.g. `data.posts` (JSON source only)
+   */
+  itemsPath: z.string().optional(),
+  /**
+   * Maximum number of remote posts to load
+   */
+  limit: z.int().positive().default(30),
+  /**
+   * Minutes to reuse remote posts cached in `node_modules/.cache` before fetching them again. The cache is
+   * also used as a fallback whenever the API can't be reached. Set to `0` to always fetch.
+   */
+  cacheTtl: z.number().nonnegative().default(60),
+  /**
+   * Fail the build when no remote posts can be loaded from the API or the cache, instead of building an
+   * empty blog
+   */
+  strict: z.boolean().default(false),
+})
+
+const contactTransportTypeSchema = z.enum(['smtp', 'webhook', 'file'])
+
+const contactSpamProtectionSchema = z.object({
+  /**
+   * Add a field that is hidden from everyone, including assistive technology. Bots that fill it in are rejected.
+   * @default true
+   */
+  honeypot: z.boolean().default(true),
+  /**
+   * Minimum number of seconds between loading the form and submitting it, `0` to disable. The form carries a
+   * signed timestamp, set `CONTACT_FORM_SECRET` to keep it valid across server restarts and instances.
+   * @default 3
+   */
+  minSubmitTime: z.number().nonnegative().default(3),
+  /**
+   * Maximum number of seconds between loading the form and submitting it, `0` to disable. Keeps a token from being
+   * fetched once and reused.
+   * @default 3600
+   */
+  maxSubmitTime: z.number().nonnegative().default(3600),
+  /**
+   * Maximum number of submissions per IP address within `window` minutes, `false` to disable. Counted in
+   * memory, so per server instance.
+   * @default { max: 5, window: 10 }
+   */
+  rateLimit: z
+    .union([z.object({ max: z.int().positive(), window: z.number().positive() }), z.literal(false)])
+    .default({ max: 5, window: 10 }),
+})
+
+const contactConfigSchema = z.object({
+  /**
+   * How contact form submissions are delivered. `smtp` reads `SMTP_HOST`, `SMTP_PORT`, `SMTP_USER` and
+   * `SMTP_PASSWORD`, `webhook` posts JSON to `CONTACT_WEBHOOK_URL` and `file` appends to `filePath`.
+   * @default 'file'
+   */
+  transport: contactTransportTypeSchema.default('file'),
+  /**
+   * Recipient of the submission emails (SMTP only)
+   */
+  to: z.email().optional(),
+  /**
+   * Sender of the submission emails (SMTP only), defaults to `to`
+   */
+  from: z.email().optional(),
+  /**
+   * Subject of the submission emails (SMTP only)
+   */
+  subject: z.string().default('New contact form submission'),
+  /**
+   * JSON Lines file the submissions are appended to (file only)
+   */
+  filePath: z.string().default('contact-submissions.jsonl'),
+  /**
+   * Spam protection without a CAPTCHA
+   */
+  spamProtection: contactSpamProtectionSchema.prefault({}),
+})
+
+const contrastConfigSchema = z.object({
+  /**
+   * What the generated palette is checked against: WCAG 2 `AA` or `AAA` contrast ratios, or `APCA` lightness
+   * contrast. See `contrastPairs` in `src/utils/colorContrast.ts` for the checked color pairs.
+   * @default 'AA'
+   */
+  level: z.enum(['AA', 'AAA', 'APCA']).default('AA'),
+  /**
+   * Fail the build (`error`), only log the failing pairs (`warn`) or skip the check (`off`)
+   * @default 'error'
+   */
+  enforce: z.enum(['error', 'warn', 'off']).default('error'),
+})
+
+const transitionsConfigSchema = z.object({
+  /**
+   * Announce the title of the new page in a polite live region after a ClientRouter navigation
+   * @default true
+   */
+  announce: z.boolean().default(true),
+  /**
+   * Where focus goes after a navigation: the first selector that matches an element on the new page. Back and
+   * forward navigations restore the focus and scroll position of the page instead.
+   * @default ['#main-content h1', '#main-content']
+   */
+  focusTargets: z.array(z.string().min(1)).default(['#main-content h1', '#main-content']),
+  /**
+   * Skip the view transition animations when reduced motion is preferred, through `prefers-reduced-motion` or the
+   * reduced motion preference
+   * @default true
+   */
+  disableOnReducedMotion: z.boolean().default(true),
+})
+
+const typographyConfigSchema = z.object({
+  /**
+   * Font stacks: `default` for body text, `special` for headings and `dyslexia` for the dyslexia-friendly font
+   * preference. Sets `--font-family-*`.
+   */
+  fontFamilies: tokenScaleSchema({
+    default: "'Atkinson Hyperlegible', sans-serif",
+    special: "'Atkinson Hyperlegible', sans-serif",
+    dyslexia: "'OpenDyslexic', 'Atkinson Hyperlegible', sans-serif",
+  }),
+  /**
+   * Fluid type scale, sets `--font-size-*`
+   * @link https://utopia.fyi/type/calculator?c=320,16,1.2,1240,18,1.25,6,2,&s=0.75|0.5|0.25,1.5|2|3|4|6,s-l&g=s,l,xl,12
+   */
+  fontSizes: tokenScaleSchema({
+    '-2': 'clamp(0.6944rem, 0.6855rem + 0.0446vw, 0.72rem)',
+    '-1': 'clamp(0.8331rem, 0.8099rem + 0.1163vw, 0.9rem)',
+    '0': 'clamp(1rem, 0.9565rem + 0.2174vw, 1.125rem)',
+    '1': 'clamp(1.2rem, 1.1283rem + 0.3587vw, 1.4063rem)',
+    '2': 'clamp(1.44rem, 1.3293rem + 0.5533vw, 1.7581rem)',
+    '3': 'clamp(1.7281rem, 1.5649rem + 0.8163vw, 2.1975rem)',
+    '4': 'clamp(2.0738rem, 1.8396rem + 1.1707vw, 2.7469rem)',
+    '5': 'clamp(2.4881rem, 2.1594rem + 1.6435vw, 3.4331rem)',
+    '6': 'clamp(2.9863rem, 2.5323rem + 2.2696vw, 4.2913rem)',
+    '7': 'clamp(3.5836rem, 2.9667rem + 3.0674vw, 5.3544rem)',
+    '8': 'clamp(4.2999rem, 3.5601rem + 3.6935vw, 6.6856rem)',
+  }),
+})
+
+/**
+ * Fluid space scale, sets `--space-*`
+ * @link https://utopia.fyi/space/calculator?c=320,16,1.2,1240,18,1.25,6,2,&s=0.75|0.5|0.25,1.5|2|3|4|6,&g=s,l,xl,12
+ */
+const spacingConfigSchema = tokenScaleSchema({
+  '5xs': 'clamp(0.1rem, 0.0931rem + 0.1087vw, 0.125rem)',
+  '4xs': 'clamp(0.125rem, 0.1131rem + 0.1087vw, 0.1563rem)',
+  '3xs': 'clamp(0.25rem, 0.2283rem + 0.1087vw, 0.3125rem)',
+  '2xs': 'clamp(0.5rem, 0.4783rem + 0.1087vw, 0.5625rem)',
+  xs: 'clamp(0.75rem, 0.7065rem + 0.2174vw, 0.875rem)',
+  s: 'clamp(1rem, 0.9565rem + 0.2174vw, 1.125rem)',
+  m: 'clamp(1.5rem, 1.4348rem + 0.3261vw, 1.6875rem)',
+  l: 'clamp(2rem, 1.913rem + 0.4348vw, 2.25rem)',
+  xl: 'clamp(3rem, 2.8696rem + 0.6522vw, 3.375rem)',
+  '2xl': 'clamp(4rem, 3.8261rem + 0.8696vw, 4.5rem)',
+  '3xl': 'clamp(6rem, 5.7391rem + 1.3043vw, 6.75rem)',
+  '4xl': 'clamp(8rem, 7.6522rem + 1.7403vw, 8.25rem)',
+  '5xl': 'clamp(10rem, 9.5652rem + 2.1741vw, 10.5rem)',
+})
+
+/**
+ * Border radius scale, sets `--radius-*`
+ */
+const radiusConfigSchema = tokenScaleSchema({
+  xs: '0.125rem',
+  s: '0.25rem',
+  m: '0.5rem',
+  l: '0.75rem',
+  h: '1rem',
+  small: '3px',
+  large: '6px',
+})
+
+/**
+ * Labels and page copy used by the theme, see `defaultUiStrings` in `src/utils/i18n.ts` for the English defaults.
+ * Placeholders such as `{name}` and `{count}` are replaced when the string is used, page subtitles may contain HTML.
+ */
+const uiStringsSchema = z.object({
+  skipLink: z.string(),
+  mainNavigationDesktop: z.string(),
+  mainNavigationMobile: z.string(),
+  menu: z.string(),
+  close: z.string(),
+  openMenu: z.string(),
+  closeMenu: z.string(),
+  toggleDarkMode: z.string(),
+  language: z.string(),
+  footer: z.string(),
+  shareOn: z.string(),
+  sharePostTitle: z.string(),
+  sharePostText: z.string(),
+  tags: z.string(),
+  publishedOn: z.string(),
+  author: z.string(),
+  preferences: z.string(),
+  highContrast: z.string(),
+  reducedMotion: z.string(),
+  largerText: z.string(),
+  textSize: z.string(),
+  textSizeDefault: z.string(),
+  textSizeLarge: z.string(),
+  textSizeLarger: z.string(),
+  textSizeLargest: z.string(),
+  readingPreferences: z.string(),
+  dyslexiaFont: z.string(),
+  textSpacing: z.string(),
+  shortLines: z.string(),
+  resetPreferences: z.string(),
+  breadcrumbs: z.string(),
+  home: z.string(),
+  pageNumber: z.string(),
+  pages: z.string(),
+  legal: z.string(),
+  contact: z.string(),
+  search: z.string(),
+  searchLabel: z.string(),
+  searchHint: z.string(),
+  searchResults: z.string(),
+  searchResult: z.string(),
+  searchNoResults: z.string(),
+  searchAllContent: z.string(),
+  searchTypePost: z.string(),
+  searchTypeProject: z.string(),
+  searchTypePage: z.string(),
+  searchDescription: z.string(),
+  searchSubtitle: z.string(),
+  blog: z.string(),
+  blogDescription: z.string(),
+  blogSubtitle: z.string(),
+  blogRange: z.string(),
+  blogPagination: z.string(),
+  portfolio: z.string(),
+  portfolioDescription: z.string(),
+  portfolioSubtitle: z.string(),
+  portfolioRange: z.string(),
+  portfolioPagination: z.string(),
+  portfolioTag: z.string(),
+  portfolioTagDescription: z.string(),
+  portfolioTagResults: z.string(),
+  portfolioTagResult: z.string(),
+  portfolioTagRange: z.string(),
+  allProjects: z.string(),
+  contactSubtitle: z.string(),
+  sitemap: z.string(),
+  sitemapDescription: z.string(),
+  sitemapSubtitle: z.string(),
+  colorContrastChecker: z.string(),
+  colorContrastCheckerSubtitle: z.string(),
+  feeds: z.string(),
+  feedsDescription: z.string(),
+})
+
+const seoSchema = z.object({
+  title: z.string().min(1).default('My Astro Site'),
+  subtitle: z.string().default(''),
+  description: z.string().default('A website built with Accessible Astro Starter'),
+  author: z.string().default(''),
+  image: z.union([imageSchema, z.string(), z.null()]).default(null),
+})
+
+const localeConfigSchema = z.object({
+  /**
+   * Name of the language in the language itself, e.g. `Nederlands`, used by the language switcher
+   */
+  label: z.string().min(1),
+  /**
+   * BCP 47 language tag for the `lang` and `hreflang` attributes. Defaults to the locale key.
+   */
+  lang: z.string().optional(),
+  /**
+   * Text direction of the language
+   * @default 'ltr'
+   */
+  dir: z.enum(['ltr', 'rtl']).optional(),
+  /**
+   * Localized SEO text, falls back to `seo`
+   */
+  seo: z
+    .object({
+      title: z.string().min(1),
+      subtitle: z.string(),
+      description: z.string(),
+    })
+    .partial()
+    .optional(),
+  /**
+   * Localized navigation items, falls back to `navigation.items`
+   */
+  navigation: navigationItemsSchema.optional(),
+  /**
+   * Translations of the component labels, falls back to English
+   */
+  strings: uiStringsSchema.partial().optional(),
+})
+
+/**
+ * Report hrefs used by more than one navigation item, so the current page can be highlighted unambiguously
+ * @param items - The navigation items
+ * @param path - The path of the items in the config
+ * @param context - The refinement context to add the issues to
+ */
+function checkDuplicateHrefs(
+  items: z.infer<typeof navigationItemsSchema>,
+  path: (string | number)[],
+  context: z.RefinementCtx,
+): void {
+  const seen = new Map<string, string>()
+  const check = (href: string, hrefPath: (string | number)[]) => {
+    const key = href.replace(/(.)\/$/, '$1')
+    const first = seen.get(key)
+    if (first) {
+      context.addIssue({
+        code: 'custom',
+        path: hrefPath,
+        message: `Duplicate href \`${href}\`, already used by ${first}`,
+      })
+    } else {
+      seen.set(key, formatPath(hrefPath))
+    }
   }
-  navigation: {
-    darkmode?: boolean
-    items: NavigationItem[]
+
+  const checkItems = (children: NavigationItem[], childrenPath: (string | number)[]) => {
+    children.forEach((item, index) => {
+      if (item.type === 'dropdown') {
+        checkItems(item.items, [...childrenPath, index, 'items'])
+      } else if (item.type === 'mega') {
+        item.sections.forEach((section, sectionIndex) => {
+          checkItems(section.items, [...childrenPath, index, 'sections', sectionIndex, 'items'])
+        })
+        if (item.featured) check(item.featured.href, [...childrenPath, index, 'featured', 'href'])
+      } else {
+        check(item.href, [...childrenPath, index, 'href'])
+      }
+    })
   }
-  socials?: SocialItem[]
+  checkItems(items, path)
 }
 
-const defaultConfig: Omit<ThemeConfig, 'name' | 'id'> = {
-  seo: {
-    title: 'My Astro Site',
-    subtitle: '',
-    description: 'A website built with Accessible Astro Starter',
-    author: '',
-    image: null,
-  },
-  colors: {
-    primary: '#d648ff',
-    secondary: '#00d1b7',
-    neutral: '#b9bec4',
-    outline: '#ff4500',
-  },
-  navigation: {
-    darkmode: true,
-    items: [],
-  },
-  socials: [],
+/**
+ * Schema of `theme.config.ts`, applies the defaults and rejects invalid values
+ */
+export const themeConfigSchema = z
+  .object({
+    name: z.string().min(1),
+    id: z.string().min(1),
+    logo: imageSchema.nullable().optional(),
+    seo: seoSchema,
+    colors: z
+      .object({
+        primary: brandColorSchema('primary', '#d648ff'),
+        secondary: brandColorSchema('secondary', '#00d1b7'),
+        neutral: brandColorSchema('neutral', '#b9bec4'),
+        outline: brandColorSchema('outline', '#ff4500'),
+        light: colorSchemeSchema({
+          foreground: 'neutral-800',
+          background: 'neutral-100',
+          link: 'primary-400',
+          // Darker than the `primary-300` of earlier versions, which has a contrast of 3:1 and fails the AA check.
+          // Set `linkHover: 'primary-300'` and `contrast.enforce: 'warn'` to keep the old hover color.
+          linkHover: 'primary-500',
+          border: 'neutral-900',
+          borderSubtle: 'neutral-300',
+          outline: 'outline-200',
+        }),
+        dark: colorSchemeSchema({
+          foreground: 'neutral-100',
+          background: 'neutral-900',
+          link: 'secondary-100',
+          linkHover: 'secondary-200',
+          border: 'neutral-100',
+          borderSubtle: 'neutral-800',
+          outline: 'outline-100',
+        }),
+      })
+      .prefault({}),
+    typography: typographyConfigSchema.prefault({}),
+    spacing: spacingConfigSchema,
+    radius: radiusConfigSchema,
+    contrast: contrastConfigSchema.prefault({}),
+    transitions: transitionsConfigSchema.prefault({}),
+    navigation: z.object({
+      darkmode: z.boolean().default(true),
+      items: navigationItemsSchema.default([]),
+    }),
+    socials: z.array(socialItemSchema).default([]),
+    footer: footerConfigSchema.prefault({}),
+    feeds: feedsConfigSchema.prefault({}),
+    ogImage: ogImageConfigSchema.prefault({}),
+    blog: blogConfigSchema.prefault({}),
+    contact: contactConfigSchema.prefault({}),
+    /**
+     * Key of the locale served without a URL prefix. Keep in sync with `i18n.defaultLocale` in astro.config.mjs.
+     */
+    defaultLocale: z.string().default('en'),
+    /**
+     * The site's languages, keyed by the locale used in URLs (`/nl/...`). Keep the keys in sync with
+     * `i18n.locales` in astro.config.mjs.
+     */
+    locales: z.record(z.string(), localeConfigSchema).default({ en: { label: 'English' } }),
+  })
+  .superRefine((config, context) => {
+    checkDuplicateHrefs(config.navigation.items, ['navigation', 'items'], context)
+    Object.entries(config.locales).forEach(([code, locale]) => {
+      if (locale.navigation) checkDuplicateHrefs(locale.navigation, ['locales', code, 'navigation'], context)
+    })
+
+    if (config.contrast.enforce === 'error') {
+      checkThemeContrast(config.colors, config.contrast.level).forEach((failure) => {
+        context.addIssue({
+          code: 'custom',
+          path: ['colors', failure.pair.scheme, failure.pair.foreground],
+          message: `${failure.message}. Adjust the colors, or set \`contrast.enforce\` to 'warn'`,
+        })
+      })
+    }
+
+    if (!config.locales[config.defaultLocale]) {
+      context.addIssue({
+        code: 'custom',
+        path: ['defaultLocale'],
+        message: `Add a \`${config.defaultLocale}\` entry to \`locales\`, or set \`defaultLocale\` to one of: ${Object.keys(config.locales).join(', ')}`,
+      })
+    }
+  })
+
+export type NavigationLink = z.infer<typeof navigationLinkSchema>
+export type NavigationDropdown = z.infer<typeof navigationDropdownSchema>
+export type NavigationMegaMenu = z.infer<typeof navigationMegaMenuSchema>
+export type NavigationItem = NavigationLink | NavigationDropdown | NavigationMegaMenu
+export type SocialItem = z.infer<typeof socialItemSchema>
+export type FooterLink = z.infer<typeof footerLinkSchema>
+export type FooterConfig = z.infer<typeof footerConfigSchema>
+export type FeedFormat = z.infer<typeof feedFormatSchema>
+export type FeedsConfig = z.infer<typeof feedsConfigSchema>
+export type OgImageConfig = z.infer<typeof ogImageConfigSchema>
+export type BlogSourceType = z.infer<typeof blogSourceTypeSchema>
+export type BlogPostField = z.infer<typeof blogPostFieldSchema>
+export type BlogConfig = z.infer<typeof blogConfigSchema>
+export type ContactTransportType = z.infer<typeof contactTransportTypeSchema>
+export type ContactSpamProtectionConfig = z.infer<typeof contactSpamProtectionSchema>
+export type ContactConfig = z.infer<typeof contactConfigSchema>
+export type TypographyConfig = z.infer<typeof typographyConfigSchema>
+export type ContrastConfig = z.infer<typeof contrastConfigSchema>
+export type TransitionsConfig = z.infer<typeof transitionsConfigSchema>
+export type UiStrings = z.infer<typeof uiStringsSchema>
+export type LocaleConfig = z.infer<typeof localeConfigSchema>
+/**
+ * The theme config with all defaults applied, as imported from `@theme-config`
+ */
+export type ThemeConfig = z.output<typeof themeConfigSchema>
+/**
+ * The theme config as written in `theme.config.ts`
+ */
+export type ThemeConfigInput = z.input<typeof themeConfigSchema>
+
+/**
+ * Format the path of a config value, e.g. `navigation.items[3].items[0].href`
+ * @param path - The keys and indexes leading to the value
+ * @returns The path in JavaScript notation
+ */
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`
+    return result ? `${result}.${String(key)}` : String(key)
+  }, '')
 }
 
-export function defineThemeConfig(config: ThemeConfig): ThemeConfig {
-  return {
-    ...config,
-    seo: {
-      ...defaultConfig.seo,
-      ...config.seo,
-    },
-    colors: {
-      ...defaultConfig.colors,
-      ...config.colors,
-    },
-    socials: config.socials ?? defaultConfig.socials,
-    navigation: {
-      ...defaultConfig.navigation,
-      ...config.navigation,
-    },
+/**
+ * Validate the theme config and apply its defaults
+ * @param config - The theme config
+ * @returns The theme config with all defaults applied
+ * @throws When the config is invalid, listing the path of every invalid value
+ */
+export function defineThemeConfig(config: ThemeConfigInput): ThemeConfig {
+  const result = themeConfigSchema.safeParse(config)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  - ${formatPath(issue.path) || '(root)'}: ${issue.message}`)
+    throw new Error(`Invalid theme config in theme.config.ts:\n${issues.join('\n')}`)
   }
+
+  return result.data
 }
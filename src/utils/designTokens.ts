@@ -0,0 +1,295 @@
+import type { ThemeConfig, ThemeConfigInput } from '@utils/defineThemeConfig'
+import {
+  brandColors,
+  generatePalette,
+  isPaletteColor,
+  paletteSteps,
+  type BrandColor,
+  type PaletteColor,
+  type SemanticColor,
+} from '@utils/colorContrast'
+
+/**
+ * A design token in the W3C Design Tokens format, `$value` can reference another token as `{color.primary.400}`
+ */
+export interface DesignToken {
+  $type: 'color' | 'dimension' | 'fontFamily'
+  $value: string
+}
+
+export interface DesignTokenGroup {
+  [name: string]: DesignToken | DesignTokenGroup
+}
+
+/**
+ * The sections of the theme config that hold design tokens
+ */
+export type DesignTokenConfig = Pick<ThemeConfig, 'colors' | 'typography' | 'spacing' | 'radius'>
+
+/**
+ * The CSS custom property set by each semantic color
+ */
+export const semanticColorProperties: Record<SemanticColor, string> = {
+  foreground: '--foreground-color',
+  background: '--background-color',
+  link: '--link-color',
+  linkHover: '--link-hover-color',
+  border: '--border-color',
+  borderSubtle: '--border-color-subtle',
+  outline: '--outline-color',
+}
+
+const isToken = (node: DesignToken | DesignTokenGroup): node is DesignToken => '$value' in node
+
+/**
+ * Flatten a token group
+ * @param group - The tokens
+ * @param path - The path of the group
+ * @returns Every token with its path, e.g. `['color', 'primary', '400']`
+ */
+function flattenTokens(group: DesignTokenGroup, path: string[] = []): [string[], DesignToken][] {
+  return Object.entries(group).flatMap(([name, node]) =>
+    isToken(node) ? [[[...path, name], node] as [string[], DesignToken]] : flattenTokens(node, [...path, name]),
+  )
+}
+
+/**
+ * Create the design tokens of the theme: brand colors and their palettes, the semantic colors of the light and dark
+ * color schemes, font families, font sizes, space and border radius
+ * @param config - The theme config
+ * @returns The tokens in the W3C Design Tokens format
+ */
+export function createDesignTokens(config: DesignTokenConfig): DesignTokenGroup {
+  const palette = generatePalette(config.colors)
+  const scale = (values: Record<string, string>, $type: DesignToken['$type']): DesignTokenGroup =>
+    Object.fromEntries(Object.entries(values).map(([name, $value]) => [name, { $type, $value }]))
+  const colorValue = (value: string) => (isPaletteColor(value) ? `{color.${value.replace('-', '.')}}` : value)
+
+  const color: DesignTokenGroup = {}
+  for (const brand of brandColors) {
+    color[brand] = scale(
+      Object.fromEntries(
+        Object.keys(paletteSteps[brand]).map((step) => [step, palette[`${brand}-${step}` as PaletteColor]]),
+      ),
+      'color',
+    )
+  }
+  for (const scheme of ['light', 'dark'] as const) {
+    color[scheme] = scale(
+      Object.fromEntries(Object.entries(config.colors[scheme]).map(([name, value]) => [name, colorValue(value)])),
+      'color',
+    )
+  }
+
+  return {
+    brand: scale(Object.fromEntries(brandColors.map((brand) => [brand, config.colors[brand].base])), 'color'),
+    color,
+    font: {
+      family: scale(config.typography.fontFamilies, 'fontFamily'),
+      size: scale(config.typography.fontSizes, 'dimension'),
+    },
+    space: scale(config.spacing, 'dimension'),
+    radius: scale(config.radius, 'dimension'),
+  }
+}
+
+/**
+ * Turn a token value into CSS, references become `var()`
+ * @param value - The token value
+ * @returns The CSS value
+ */
+function toCssValue(value: string): string {
+  return value.replace(/\{([^}]+)\}/g, (_, path: string) => `var(--${path.replaceAll('.', '-')})`)
+}
+
+/**
+ * Format the tokens as CSS custom properties, named after their path (`--color-primary-400`, `--space-m`). The
+ * semantic colors set their own property with `light-dark()`, e.g. `--link-color`.
+ * @param tokens - The tokens from `createDesignTokens`
+ * @returns A `:root` rule
+ */
+export function formatTokensAsCss(tokens: DesignTokenGroup): string {
+  const flat = flattenTokens(tokens)
+  const isSemantic = ([path]: [string[], DesignToken]) => path[0] === 'color' && ['light', 'dark'].includes(path[1])
+  const semanticValue = (scheme: string, name: string) =>
+    toCssValue(flat.find(([path]) => path.join('.') === `color.${scheme}.${name}`)?.[1].$value ?? 'currentcolor')
+
+  const declarations = [
+    ...flat
+      .filter((entry) => !isSemantic(entry))
+      .map(([path, token]) => `--${path.join('-')}: ${toCssValue(token.$value)};`),
+    ...Object.entries(semanticColorProperties).map(
+      ([name, property]) => `${property}: light-dark(${semanticValue('light', name)}, ${semanticValue('dark', name)});`,
+    ),
+  ]
+  return `:root {\n  ${declarations.join('\n  ')}\n}\n`
+}
+
+/**
+ * Format the tokens as a Tailwind v4 theme, adding utilities such as `bg-primary-400`, `text-link`, `p-m` and
+ * `rounded-l`. The theme doesn't set any custom properties: the utilities use the ones `DefaultLayout.astro` sets
+ * from the theme config, so the theme only needs to be generated again when tokens are added or removed.
+ * @param tokens - The tokens from `createDesignTokens`
+ * @returns The `@theme` blocks
+ */
+export function formatTokensAsTailwindTheme(tokens: DesignTokenGroup): string {
+  const kebabCase = (name: string) => name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)
+  const reference: string[] = []
+  const inline: string[] = []
+
+  for (const [path, token] of flattenTokens(tokens)) {
+    const [group, name, step] = path
+    if (group === 'color' && (name === 'light' || name === 'dark')) continue
+    if (group === 'color') reference.push(`--color-${name}-${step}: ${token.$value};`)
+    if (group === 'radius') reference.push(`--radius-${name}: ${token.$value};`)
+    if (group === 'font' && name === 'family') inline.push(`--font-${step}: var(--font-family-${step});`)
+    if (group === 'font' && name === 'size') inline.push(`--text-${step}: var(--font-size-${step});`)
+    if (group === 'space') inline.push(`--spacing-${name}: var(--space-${name});`)
+  }
+  for (const [name, property] of Object.entries(semanticColorProperties)) {
+    inline.push(`--color-${kebabCase(name)}: var(${property});`)
+  }
+
+  return [
+    '/* Generated from theme.config.ts by `npm run tokens`, changes are overwritten */',
+    '',
+    '/* Same names as the custom properties, the values are fallbacks */',
+    `@theme reference {\n  ${reference.join('\n  ')}\n}`,
+    '',
+    `@theme inline {\n  ${inline.join('\n  ')}\n}`,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Format the tokens as a W3C Design Tokens file
+ * @param tokens - The tokens from `createDesignTokens`
+ * @returns The JSON
+ */
+export function formatTokensAsJson(tokens: DesignTokenGroup): string {
+  return `${JSON.stringify(tokens, null, 2)}\n`
+}
+
+interface TokensStudioToken {
+  path: string[]
+  type: string
+  value: unknown
+}
+
+/**
+ * Theme config sections read from a Tokens Studio file
+ */
+export interface TokensStudioImport {
+  config: Pick<ThemeConfigInput, 'colors' | 'typography' | 'spacing' | 'radius'>
+  /**
+   * Paths of the tokens that don't map to the theme config
+   */
+  skipped: string[]
+}
+
+/**
+ * Read a Tokens Studio for Figma file into the design token sections of the theme config. Colors are matched by
+ * the brand color (`primary`, …) and palette step or scheme (`light`, `dark`) and semantic color in their path;
+ * font families, font sizes, spacing and border radius by their token type.
+ * @param json - The parsed Tokens Studio file, with token sets or without, in its own or the W3C format
+ * @returns The config sections and the tokens that were skipped
+ */
+export function importTokensStudio(json: unknown): TokensStudioImport {
+  const tokens = new Map<string, TokensStudioToken>()
+  const collect = (node: unknown, path: string[]) => {
+    if (!node || typeof node !== 'object') return
+    const record = node as Record<string, unknown>
+    if ('value' in record || '$value' in record) {
+      const token = { path, type: String(record.$type ?? record.type ?? ''), value: record.$value ?? record.value }
+      // References leave out the token set, so register tokens under both paths
+      tokens.set(path.join('.'), token)
+      tokens.set(path.slice(1).join('.'), tokens.get(path.slice(1).join('.')) ?? token)
+      return
+    }
+    Object.entries(record)
+      .filter(([key]) => !key.startsWith('$'))
+      .forEach(([key, child]) => collect(child, [...path, key]))
+  }
+  collect(json, [])
+
+  /**
+   * Follow a reference such as `{colors.primary.400}` to the token it points at
+   */
+  const resolve = (token: TokensStudioToken, depth = 0): TokensStudioToken => {
+    const match = typeof token.value === 'string' && token.value.match(/^\{([^}]+)\}$/)
+    const target = match ? tokens.get(match[1]) : undefined
+    return target && depth < 10 ? resolve(target, depth + 1) : token
+  }
+
+  /**
+   * The palette color a token path stands for, e.g. `primary-400` for `colors.primary.400`
+   */
+  const toPaletteColor = (path: string[]): PaletteColor | undefined => {
+    const brand = brandColors.find((color) => path.some((segment) => segment.toLowerCase() === color))
+    const step = path.at(-1) ?? ''
+    return brand && step in paletteSteps[brand] ? (`${brand}-${step}` as PaletteColor) : undefined
+  }
+
+  const normalize = (name: string) => name.toLowerCase().replace(/[-_\s]/g, '')
+  const semanticColors = Object.keys(semanticColorProperties) as SemanticColor[]
+  const brandColorInput: Partial<Record<BrandColor, { base?: string; steps: Record<string, string> }>> = {}
+  const colors: Record<string, unknown> = {}
+  const typography = { fontFamilies: {} as Record<string, string>, fontSizes: {} as Record<string, string> }
+  const spacing: Record<string, string> = {}
+  const radius: Record<string, string> = {}
+  const skipped: string[] = []
+
+  for (const token of new Set(tokens.values())) {
+    const { path, type } = token
+    const resolved = resolve(token)
+    const value = Array.isArray(resolved.value) ? resolved.value.join(', ') : String(resolved.value)
+    const dimension = /^-?\d+(\.\d+)?$/.test(value) ? `${value}px` : value
+    const name = path.at(-1) ?? ''
+    const segments = path.map((segment) => segment.toLowerCase())
+
+    if (type === 'color') {
+      const scheme = segments.includes('dark') ? 'dark' : segments.includes('light') ? 'light' : undefined
+      const semantic = semanticColors.find((color) => normalize(color) === normalize(name))
+      const paletteColor = toPaletteColor(path)
+      const brand = brandColors.find((color) => segments.includes(color))
+
+      if (!/^#[0-9a-f]{3,8}$/i.test(value)) {
+        skipped.push(path.join('.'))
+      } else if (scheme && semantic) {
+        const scale = (colors[scheme] ??= {}) as Record<string, string>
+        scale[semantic] = toPaletteColor(resolved.path) ?? value
+      } else if (paletteColor && brand) {
+        const input = (brandColorInput[brand] ??= { steps: {} })
+        input.steps[paletteColor.slice(brand.length + 1)] = value
+      } else if (brand && ['base', 'default', brand].includes(name.toLowerCase())) {
+        ;(brandColorInput[brand] ??= { steps: {} }).base = value
+      } else {
+        skipped.push(path.join('.'))
+      }
+    } else if (['fontFamilies', 'fontFamily'].includes(type)) {
+      typography.fontFamilies[name] = value
+    } else if (['fontSizes', 'fontSize'].includes(type)) {
+      typography.fontSizes[name] = dimension
+    } else if (
+      type === 'borderRadius' ||
+      (type === 'dimension' && segments.some((segment) => segment.includes('radius')))
+    ) {
+      radius[name] = dimension
+    } else if (type === 'spacing' || (type === 'dimension' && segments.some((segment) => segment.startsWith('spac')))) {
+      spacing[name] = dimension
+    } else {
+      skipped.push(path.join('.'))
+    }
+  }
+
+  for (const [brand, { base, steps }] of Object.entries(brandColorInput)) {
+    // Without a base color, the steps that aren't set are generated from one that is
+    const fallback = base ?? Object.values(steps)[0]
+    colors[brand] = Object.keys(steps).length ? { base: fallback, steps } : fallback
+  }
+
+  return {
+    config: { colors: colors as TokensStudioImport['config']['colors'], typography, spacing, radius },
+    skipped,
+  }
+}
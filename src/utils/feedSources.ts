@@ -0,0 +1,48 @@
+import { getContainerRenderer as getMdxRenderer } from '@astrojs/mdx/container-renderer'
+import type { AstroRenderer } from 'astro'
+import { getCollection, render } from 'astro:content'
+import { getPosts } from '@utils/getPosts'
+import type { FeedSource } from '@utils/feeds'
+
+/**
+ * Renderers for the full content of the entries, MDX entries need the MDX renderer
+ */
+export const feedRenderers: AstroRenderer[] = [getMdxRenderer()]
+
+/**
+ * The collections that have feeds, see `feeds` in theme.config.ts for the formats and content
+ */
+export const feedSources: FeedSource[] = [
+  {
+    id: 'blog',
+    title: 'Blog',
+    description: 'Articles and insights about web accessibility, development best practices, and inclusive design.',
+    href: '/blog',
+    getItems: async () =>
+      (await getPosts()).map((post) => ({
+        href: `/blog/${post.id}`,
+        title: post.data.title,
+        description: post.data.description,
+        author: post.data.author,
+        categories: post.data.tags,
+        published: post.data.pubDate,
+        updated: post.data.updatedDate,
+        render: () => render(post),
+      })),
+  },
+  {
+    id: 'portfolio',
+    title: 'Portfolio',
+    description: 'A collection of projects demonstrating accessible design and development practices.',
+    href: '/portfolio',
+    getItems: async () =>
+      (await getCollection('projects')).map((project) => ({
+        href: `/portfolio/${project.id}`,
+        title: project.data.title,
+        description: project.data.description,
+        author: project.data.author,
+        categories: project.data.tags,
+        render: () => render(project),
+      })),
+  },
+]
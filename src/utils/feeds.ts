@@ -0,0 +1,248 @@
+import { experimental_AstroContainer } from 'astro/container'
+import { loadRenderers } from 'astro:container'
+import themeConfig from '@theme-config'
+import type { FeedFormat } from '@utils/defineThemeConfig'
+import { feedRenderers, feedSources } from '@utils/feedSources'
+import { getLocale } from '@utils/i18n'
+
+/**
+ * File name, media type and name of each feed format
+ */
+export const feedFormats: Record<FeedFormat, { file: string; type: string; label: string }> = {
+  rss: { file: 'rss.xml', type: 'application/rss+xml', label: 'RSS' },
+  atom: { file: 'atom.xml', type: 'application/atom+xml', label: 'Atom' },
+  json: { file: 'feed.json', type: 'application/feed+json', label: 'JSON Feed' },
+}
+
+type ContentComponent = Parameters<experimental_AstroContainer['renderToString']>[0]
+
+/**
+ * An entry of a feed
+ */
+export interface FeedItem {
+  /**
+   * The page of the entry, e.g. `/blog/my-post`
+   */
+  href: string
+  title: string
+  description: string
+  author: string
+  /**
+   * Tags, listed as categories
+   */
+  categories: string[]
+  published?: Date
+  updated?: Date
+  /**
+   * Render the content of the entry, e.g. `() => render(post)`, used when `feeds.content` is `full`
+   */
+  render?: () => Promise<{ Content: ContentComponent }>
+}
+
+/**
+ * A collection that has a feed, see `src/utils/feedSources.ts`
+ */
+export interface FeedSource {
+  /**
+   * Directory of the feed files, e.g. `blog` for `/feeds/blog/rss.xml`
+   */
+  id: string
+  title: string
+  description: string
+  /**
+   * The page that lists the entries, e.g. `/blog`
+   */
+  href: string
+  getItems: () => Promise<FeedItem[]>
+}
+
+/**
+ * A feed file, as linked from the `<head>`, the sitemap and the launcher
+ */
+export interface FeedLink {
+  source: FeedSource
+  format: FeedFormat
+  /**
+   * The name of the feed, e.g. `Blog - Accessible Astro Starter (RSS)`
+   */
+  title: string
+  href: string
+  type: string
+}
+
+/**
+ * Get the path of a feed file
+ * @param source - The collection of the feed
+ * @param format - The feed format
+ * @returns The path, e.g. `/feeds/blog/rss.xml`
+ */
+export function getFeedPath(source: FeedSource, format: FeedFormat): string {
+  return `/feeds/${source.id}/${feedFormats[format].file}`
+}
+
+/**
+ * Get the title of a feed, from the title of its collection and the site
+ */
+const getFeedTitle = (source: FeedSource) => `${source.title} - ${getLocale().seo.title}`
+
+/**
+ * Get the feed files of every collection in the formats of `feeds.formats` in the theme config
+ * @returns The feeds, grouped by collection
+ */
+export function getFeedLinks(): FeedLink[] {
+  return feedSources.flatMap((source) =>
+    themeConfig.feeds.formats.map((format) => ({
+      source,
+      format,
+      title: `${getFeedTitle(source)} (${feedFormats[format].label})`,
+      href: getFeedPath(source, format),
+      type: feedFormats[format].type,
+    })),
+  )
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;')
+
+let container: Promise<experimental_AstroContainer> | undefined
+
+/**
+ * Render the content of an entry to HTML with absolute URLs, feed readers don't know the site the entry came from
+ */
+async function renderContent(item: FeedItem, site: URL): Promise<string | undefined> {
+  if (themeConfig.feeds.content !== 'full' || !item.render) return undefined
+
+  const { Content } = await item.render()
+  container ??= loadRenderers(feedRenderers).then((renderers) => experimental_AstroContainer.create({ renderers }))
+  const html = await (await container).renderToString(Content)
+  return html.replace(/\s(href|src)="\/(?!\/)/g, (_, attribute) => ` ${attribute}="${new URL('/', site).href}`)
+}
+
+interface ResolvedFeedItem extends Omit<FeedItem, 'render'> {
+  url: string
+  content?: string
+}
+
+const renderRss = (source: FeedSource, items: ResolvedFeedItem[], site: URL, updated: Date) => {
+  const locale = getLocale()
+  const entries = items.map(
+    (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${item.url}</link>
+      <guid isPermaLink="true">${item.url}</guid>
+      <description>${escapeXml(item.description)}</description>
+${item.content ? `      <content:encoded>${escapeXml(item.content)}</content:encoded>\n` : ''}${item.published ? `      <pubDate>${item.published.toUTCString()}</pubDate>\n` : ''}      <dc:creator>${escapeXml(item.author)}</dc:creator>
+${item.categories.map((category) => `      <category>${escapeXml(category)}</category>\n`).join('')}    </item>`,
+  )
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(getFeedTitle(source))}</title>
+    <link>${new URL(source.href, site).href}</link>
+    <description>${escapeXml(source.description)}</description>
+    <language>${locale.lang}</language>
+    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${new URL(getFeedPath(source, 'rss'), site).href}" rel="self" type="${feedFormats.rss.type}" />
+${entries.join('\n')}
+  </channel>
+</rss>
+`
+}
+
+const renderAtom = (source: FeedSource, items: ResolvedFeedItem[], site: URL, updated: Date) => {
+  const locale = getLocale()
+  const entries = items.map(
+    (item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${item.url}" />
+    <id>${item.url}</id>
+${item.published ? `    <published>${item.published.toISOString()}</published>\n` : ''}    <updated>${(item.updated ?? item.published ?? updated).toISOString()}</updated>
+    <author>
+      <name>${escapeXml(item.author)}</name>
+    </author>
+    <summary>${escapeXml(item.description)}</summary>
+${item.content ? `    <content type="html">${escapeXml(item.content)}</content>\n` : ''}${item.categories.map((category) => `    <category term="${escapeXml(category)}" />\n`).join('')}  </entry>`,
+  )
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${locale.lang}">
+  <title>${escapeXml(getFeedTitle(source))}</title>
+  <subtitle>${escapeXml(source.description)}</subtitle>
+  <link href="${new URL(source.href, site).href}" />
+  <link href="${new URL(getFeedPath(source, 'atom'), site).href}" rel="self" type="${feedFormats.atom.type}" />
+  <id>${new URL(source.href, site).href}</id>
+  <updated>${updated.toISOString()}</updated>
+  <author>
+    <name>${escapeXml(themeConfig.seo.author || themeConfig.name)}</name>
+  </author>
+${entries.join('\n')}
+</feed>
+`
+}
+
+const renderJson = (source: FeedSource, items: ResolvedFeedItem[], site: URL) =>
+  `${JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: getFeedTitle(source),
+      home_page_url: new URL(source.href, site).href,
+      feed_url: new URL(getFeedPath(source, 'json'), site).href,
+      description: source.description,
+      language: getLocale().lang,
+      authors: [{ name: themeConfig.seo.author || themeConfig.name }],
+      items: items.map((item) => ({
+        id: item.url,
+        url: item.url,
+        title: item.title,
+        summary: item.description,
+        ...(item.content ? { content_html: item.content } : { content_text: item.description }),
+        date_published: item.published?.toISOString(),
+        date_modified: (item.updated ?? item.published)?.toISOString(),
+        authors: [{ name: item.author }],
+        tags: item.categories,
+      })),
+    },
+    null,
+    2,
+  )}\n`
+
+/**
+ * Render the feed of a collection, with the newest `feeds.limit` entries
+ * @param source - The collection of the feed
+ * @param format - The feed format
+ * @param site - The URL of the site, e.g. `Astro.site`
+ * @returns The feed file, with its media type
+ */
+export async function renderFeed(
+  source: FeedSource,
+  format: FeedFormat,
+  site: URL,
+): Promise<{ body: string; type: string }> {
+  const items = await Promise.all(
+    (await source.getItems()).slice(0, themeConfig.feeds.limit).map(async ({ render, ...item }) => ({
+      ...item,
+      url: new URL(item.href, site).href,
+      content: await renderContent({ ...item, render }, site),
+    })),
+  )
+  // Entries without a date, like projects, are as new as the build
+  const updated =
+    items.reduce<Date | undefined>((latest, item) => {
+      const date = item.updated ?? item.published
+      return date && (!latest || date > latest) ? date : latest
+    }, undefined) ?? new Date()
+
+  const body = {
+    rss: () => renderRss(source, items, site, updated),
+    atom: () => renderAtom(source, items, site, updated),
+    json: () => renderJson(source, items, site),
+  }[format]()
+
+  return { body, type: `${feedFormats[format].type}; charset=utf-8` }
+}
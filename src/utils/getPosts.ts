@@ -0,0 +1,11 @@
+import { getCollection, type CollectionEntry } from 'astro:content'
+
+/**
+ * Get the published blog posts, newest first
+ * @description Drafts are only included in development
+ * @returns The blog posts sorted by publish date
+ */
+export async function getPosts(): Promise<CollectionEntry<'posts'>[]> {
+  const posts = await getCollection('posts', ({ data }) => import.meta.env.DEV || !data.draft)
+  return posts.sort((a, b) => b.data.pubDate.valueOf() - a.data.pubDate.valueOf())
+}
@@ -0,0 +1,191 @@
+import { getAbsoluteLocaleUrl, getRelativeLocaleUrl } from 'astro:i18n'
+import themeConfig from '@theme-config'
+import type { NavigationItem, ThemeConfig, UiStrings } from '@utils/defineThemeConfig'
+
+/**
+ * English labels for the theme's components
+ */
+export const defaultUiStrings: UiStrings = {
+  skipLink: 'Skip to main content',
+  mainNavigationDesktop: 'Main navigation desktop',
+  mainNavigationMobile: 'Main navigation mobile',
+  menu: 'Menu',
+  close: 'Close',
+  openMenu: 'Open menu navigation',
+  closeMenu: 'Close menu navigation',
+  toggleDarkMode: 'Toggle Dark Mode',
+  language: 'Language',
+  footer: 'Footer',
+  shareOn: 'Share on {name}, opens in a new tab',
+  sharePostTitle: 'Share this post',
+  sharePostText: 'Like this post? Share it with your friends!',
+  tags: 'Tags',
+  publishedOn: 'Published on {name}',
+  author: 'Author: {name}',
+  preferences: 'Display preferences',
+  highContrast: 'High contrast',
+  reducedMotion: 'Reduced motion',
+  largerText: 'Larger text',
+  textSize: 'Text size',
+  textSizeDefault: 'Default',
+  textSizeLarge: 'Large',
+  textSizeLarger: 'Larger',
+  textSizeLargest: 'Largest',
+  readingPreferences: 'Reading preferences',
+  dyslexiaFont: 'Dyslexia-friendly font',
+  textSpacing: 'Increased text spacing',
+  shortLines: 'Shorter lines',
+  resetPreferences: 'Reset to system settings',
+  breadcrumbs: 'Breadcrumbs',
+  home: 'Home',
+  pageNumber: 'Page {name}',
+  pages: 'Pages',
+  legal: 'Legal',
+  contact: 'Contact',
+  search: 'Search',
+  searchLabel: 'Search this site',
+  searchHint: 'Suggestions appear as you type, use the up and down arrow keys to choose one',
+  searchResults: '{count} results for "{name}"',
+  searchResult: '1 result for "{name}"',
+  searchNoResults: 'No results for "{name}"',
+  searchAllContent: 'All content',
+  searchTypePost: 'Blog post',
+  searchTypeProject: 'Project',
+  searchTypePage: 'Page',
+  searchDescription: 'Search the pages, blog posts and projects of this site.',
+  searchSubtitle: 'Find pages, blog posts and projects by their title, headings, tags or text.',
+  blog: 'Blog',
+  blogDescription:
+    'An example of a blog built with Astro Content Collections, using Markdown and MDX posts with a typed schema.',
+  blogSubtitle:
+    'An example of a blog built with <a href="https://docs.astro.build/en/guides/content-collections/">Astro Content Collections</a>, using Markdown and MDX posts with a typed schema. The Accessible Astro Card Component is used here to display all the posts.',
+  blogRange: 'Post {start} through {end} of {count} total posts',
+  blogPagination: 'Blog pagination',
+  portfolio: 'Portfolio',
+  portfolioDescription:
+    'A showcase of projects built with Astro Content Collections, demonstrating dynamic content management.',
+  portfolioSubtitle:
+    'A showcase of projects built with Astro Content Collections, demonstrating dynamic content management and organization. Learn more about <a href="https://docs.astro.build/en/guides/content-collections/">Astro Content Collections</a> in the official documentation.',
+  portfolioRange: 'Project {start} through {end} of {count} total projects',
+  portfolioPagination: 'Portfolio pagination',
+  portfolioTag: 'Portfolio: {name}',
+  portfolioTagDescription: 'Projects filtered by {name} tag. Discover our work in {name} and related technologies.',
+  portfolioTagResults:
+    'Showing {count} projects tagged with "{name}". <a href="{url}">View all projects</a> or filter by other tags below.',
+  portfolioTagResult:
+    'Showing 1 project tagged with "{name}". <a href="{url}">View all projects</a> or filter by other tags below.',
+  portfolioTagRange: 'Project {start} through {end} of {count} total projects tagged with "{name}"',
+  allProjects: 'All projects',
+  contactSubtitle: 'Have a question? Get in touch with us!',
+  sitemap: 'Sitemap',
+  sitemapDescription:
+    'Complete site map showing all pages, portfolio projects, and sections available on our accessible website.',
+  sitemapSubtitle:
+    'A comprehensive overview of all pages and content available on our website, organized for easy navigation.',
+  colorContrastChecker: 'Color Contrast Checker',
+  colorContrastCheckerSubtitle:
+    "This tool helps you verify which colors in your theme's palette meet the WCAG and APCA contrast requirements for accessibility in both light and dark modes, and tune the palette until they do.",
+  feeds: 'Feeds',
+  feedsDescription: "Subscribe in a feed reader to get new posts and projects as they're published.",
+}
+
+/**
+ * A locale from the theme config with all fallbacks applied
+ */
+export interface ResolvedLocale {
+  code: string
+  label: string
+  lang: string
+  dir: 'ltr' | 'rtl'
+  isDefault: boolean
+  seo: ThemeConfig['seo']
+  navigation: NavigationItem[]
+  strings: UiStrings
+}
+
+const defaultLocale = themeConfig.defaultLocale ?? 'en'
+
+/**
+ * Get the codes of all configured locales, default locale first
+ * @returns The locale codes
+ */
+export function getLocaleCodes(): string[] {
+  const codes = Object.keys(themeConfig.locales ?? {})
+  return [defaultLocale, ...codes.filter((code) => code !== defaultLocale)]
+}
+
+/**
+ * Resolve a locale from the theme config, e.g. `Astro.currentLocale`
+ * @param code - The locale code, unknown or missing codes resolve to the default locale
+ * @returns The locale with its SEO, navigation and UI strings
+ */
+export function getLocale(code?: string): ResolvedLocale {
+  const resolvedCode = code && themeConfig.locales?.[code] ? code : defaultLocale
+  const locale = themeConfig.locales?.[resolvedCode]
+
+  return {
+    code: resolvedCode,
+    label: locale?.label ?? resolvedCode,
+    lang: locale?.lang ?? resolvedCode,
+    dir: locale?.dir ?? 'ltr',
+    isDefault: resolvedCode === defaultLocale,
+    seo: { ...themeConfig.seo, ...locale?.seo },
+    navigation: locale?.navigation ?? themeConfig.navigation.items,
+    strings: { ...defaultUiStrings, ...locale?.strings },
+  }
+}
+
+/**
+ * Create a translate function for a locale
+ * @param code - The locale code, e.g. `Astro.currentLocale`
+ * @returns A function returning the UI string for a key, with `{name}` replaced by the given value
+ */
+export function useTranslations(code?: string): (key: keyof UiStrings, name?: string) => string {
+  const { strings } = getLocale(code)
+  return (key, name = '') => strings[key].replaceAll('{name}', name)
+}
+
+/**
+ * Fill in the placeholders of a UI string, e.g. `{count}` in `blogRange`
+ * @param template - The UI string, e.g. `getLocale(code).strings.blogRange`
+ * @param values - The value of each placeholder, placeholders without a value are kept
+ * @returns The UI string with the placeholders replaced
+ */
+export function formatUiString(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder,
+  )
+}
+
+/**
+ * Get the path of a page without its locale prefix, e.g. `/nl/blog/` becomes `/blog/`
+ * @param pathname - The pathname of the page
+ * @param code - The locale of the page
+ * @returns The pathname shared by all translations of the page
+ */
+export function getPathWithoutLocale(pathname: string, code?: string): string {
+  const locale = getLocale(code)
+  if (locale.isDefault) return pathname
+  return pathname.replace(new RegExp(`^/${locale.code}(?=/|$)`), '') || '/'
+}
+
+/**
+ * Get the URL of a page in every configured locale, for `hreflang` alternates and the language switcher
+ * @param pathname - The pathname of the current page
+ * @param code - The locale of the current page
+ * @returns The translations of the page, empty for single-language sites
+ */
+export function getAlternateLocales(
+  pathname: string,
+  code?: string,
+): { locale: ResolvedLocale; href: string; absoluteHref: string }[] {
+  const codes = getLocaleCodes()
+  if (codes.length < 2) return []
+
+  const path = getPathWithoutLocale(pathname, code).replace(/^\//, '')
+  return codes.map((localeCode) => ({
+    locale: getLocale(localeCode),
+    href: getRelativeLocaleUrl(localeCode, path),
+    absoluteHref: getAbsoluteLocaleUrl(localeCode, path),
+  }))
+}
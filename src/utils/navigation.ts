@@ -0,0 +1,80 @@
+import type { NavigationItem, NavigationLink } from '@utils/defineThemeConfig'
+
+/**
+ * Remove the trailing slash of a path, except for the home page
+ * @param path - A path such as `/blog/`
+ * @returns The path without trailing slash, e.g. `/blog`
+ */
+function normalizePath(path: string): string {
+  return path.replace(/(.)\/$/, '$1')
+}
+
+/**
+ * List the links of the navigation in order, including the ones in dropdowns, nested submenus and mega menus
+ * @param items - The navigation items
+ * @param options - Set `launcher` to leave out items with `excludeFromLauncher`, and the links below them
+ * @returns The links
+ */
+export function getNavigationLinks(items: NavigationItem[], options: { launcher?: boolean } = {}): NavigationLink[] {
+  return items.flatMap((item): NavigationLink[] => {
+    if (options.launcher && item.excludeFromLauncher) return []
+    if (item.type === 'dropdown') return getNavigationLinks(item.items, options)
+    if (item.type === 'mega') {
+      return getNavigationLinks(
+        [...item.sections.flatMap((section) => section.items), ...(item.featured ? [item.featured] : [])],
+        options,
+      )
+    }
+    return [item]
+  })
+}
+
+/**
+ * Find the navigation items leading to the current page: the link of the page, or of the closest section it's in
+ * (`/blog` for `/blog/my-post`), and the dropdowns and mega menu it's in
+ * @param items - The navigation items
+ * @param pathname - The path of the current page
+ * @returns The items from the top level down to the link, empty when no link matches. The link is the page itself
+ * when its href is the current path.
+ */
+export function getCurrentTrail(items: NavigationItem[], pathname: string): NavigationItem[] {
+  const current = normalizePath(pathname)
+  let best: { trail: NavigationItem[]; length: number } | undefined
+
+  const visit = (children: NavigationItem[], ancestors: NavigationItem[]) => {
+    for (const item of children) {
+      const trail = [...ancestors, item]
+      if (item.type === 'dropdown') {
+        visit(item.items, trail)
+      } else if (item.type === 'mega') {
+        visit([...item.sections.flatMap((section) => section.items), ...(item.featured ? [item.featured] : [])], trail)
+      } else if (!item.external && item.href.startsWith('/')) {
+        const href = normalizePath(item.href.split(/[?#]/)[0])
+        const matches = href === current || (href !== '/' && current.startsWith(`${href}/`))
+        // An exact match wins, otherwise the deepest section
+        const length = href === current ? Infinity : href.length
+        if (matches && (!best || length > best.length)) best = { trail, length }
+      }
+    }
+  }
+  visit(items, [])
+
+  return best?.trail ?? []
+}
+
+/**
+ * Get the `aria-current` value of a navigation item
+ * @param item - The navigation item
+ * @param trail - The trail from `getCurrentTrail`
+ * @param pathname - The path of the current page
+ * @returns `page` for the link of the current page, `true` for the items it's in, otherwise `undefined`
+ */
+export function getAriaCurrent(
+  item: NavigationItem,
+  trail: NavigationItem[],
+  pathname: string,
+): 'page' | 'true' | undefined {
+  if (!trail.includes(item)) return undefined
+  const isPage = item === trail.at(-1) && 'href' in item && normalizePath(item.href) === normalizePath(pathname)
+  return isPage ? 'page' : 'true'
+}
@@ -0,0 +1,161 @@
+/**
+ * Client-side script for the main navigation, following the disclosure navigation pattern. Import it from a
+ * component `<script>`; the listeners are delegated, so they keep working when ClientRouter swaps the page.
+ *
+ * - Left and Right arrows move between the top level items, Home and End to the first and last
+ * - Down and Up arrows open a menu from its button and move through its links, Home and End to the first and last
+ * - Right arrow opens a nested submenu, Left arrow closes it
+ * - Escape closes the menu and moves focus to its button
+ * - Menus close when focus or a click moves outside of them
+ */
+
+const menuSelector = '#main-navigation nav > ul'
+
+/**
+ * The button that shows and hides a panel
+ */
+const getButton = (panel: Element) => document.querySelector<HTMLButtonElement>(`[aria-controls="${panel.id}"]`)
+
+/**
+ * The panel a disclosure button controls
+ */
+const getPanel = (button: Element) => {
+  const id = button.getAttribute('aria-controls')
+  return id ? document.getElementById(id) : null
+}
+
+const isDisclosure = (element: Element): element is HTMLButtonElement =>
+  element instanceof HTMLButtonElement && element.hasAttribute('aria-expanded') && element.hasAttribute('aria-controls')
+
+/**
+ * The links and buttons of a panel, leaving out those of nested panels
+ */
+const getPanelItems = (panel: Element) =>
+  [...panel.querySelectorAll<HTMLElement>('a[href], button')].filter(
+    (item) => item.closest('[data-menu-panel]') === panel,
+  )
+
+/**
+ * The first link or button of each top level item
+ */
+const getTopLevelItems = (menu: Element) =>
+  [...menu.querySelectorAll<HTMLElement>(':scope > li')]
+    .map((item) => item.querySelector<HTMLElement>('a[href], button, input'))
+    .filter((item) => item !== null)
+
+/**
+ * Show or hide the panel of a disclosure button, nested panels close along with it
+ */
+function setExpanded(button: HTMLButtonElement, expanded: boolean): void {
+  const panel = getPanel(button)
+  button.setAttribute('aria-expanded', String(expanded))
+  if (!panel) return
+
+  if (expanded) {
+    // Siblings close, so only one menu per level is open
+    button
+      .closest('ul')
+      ?.querySelectorAll<HTMLButtonElement>(':scope > li > button[aria-expanded="true"]')
+      .forEach((sibling) => sibling !== button && setExpanded(sibling, false))
+    panel.classList.remove('align-end')
+    if (panel.getBoundingClientRect().right > document.documentElement.clientWidth) panel.classList.add('align-end')
+  } else {
+    panel
+      .querySelectorAll<HTMLButtonElement>('button[aria-expanded="true"]')
+      .forEach((nested) => setExpanded(nested, false))
+  }
+}
+
+/**
+ * Close every menu of the navigation
+ */
+function closeAll(): void {
+  document
+    .querySelectorAll<HTMLButtonElement>(`${menuSelector} button[aria-expanded="true"][aria-controls]`)
+    .forEach((button) => setExpanded(button, false))
+}
+
+/**
+ * Move focus by an offset through a list of items, wrapping around
+ */
+function focusSibling(items: HTMLElement[], current: Element | null, offset: number): void {
+  const index = items.findIndex((item) => item === current)
+  if (index === -1) items.at(offset > 0 ? 0 : -1)?.focus()
+  else items[(index + offset + items.length) % items.length]?.focus()
+}
+
+/**
+ * Open the panel of a button and focus its first or last item
+ */
+function openAndFocus(button: HTMLButtonElement, position: 'first' | 'last'): void {
+  const panel = getPanel(button)
+  if (!panel) return
+  setExpanded(button, true)
+  const items = getPanelItems(panel)
+  items.at(position === 'first' ? 0 : -1)?.focus()
+}
+
+document.addEventListener('keydown', (event) => {
+  const target = event.target as HTMLElement
+  const menu = target.closest(menuSelector)
+  if (!menu || event.altKey || event.ctrlKey || event.metaKey) return
+
+  const panel = target.closest<HTMLElement>('[data-menu-panel]')
+  const topLevelItems = getTopLevelItems(menu)
+  const topLevelItem = target.closest(`${menuSelector} > li`)?.querySelector<HTMLElement>('a[href], button, input')
+  const closeAndFocusTopLevel = (offset: number) => {
+    closeAll()
+    focusSibling(topLevelItems, topLevelItem ?? null, offset)
+  }
+  let handled = true
+
+  if (!panel) {
+    // Top level
+    if (event.key === 'ArrowRight') closeAndFocusTopLevel(1)
+    else if (event.key === 'ArrowLeft') closeAndFocusTopLevel(-1)
+    else if (event.key === 'Home') topLevelItems[0]?.focus()
+    else if (event.key === 'End') topLevelItems.at(-1)?.focus()
+    else if (event.key === 'ArrowDown' && isDisclosure(target)) openAndFocus(target, 'first')
+    else if (event.key === 'ArrowUp' && isDisclosure(target)) openAndFocus(target, 'last')
+    else if (event.key === 'Escape' && isDisclosure(target)) setExpanded(target, false)
+    else handled = false
+  } else {
+    const items = getPanelItems(panel)
+    const button = getButton(panel)
+    const isNested = Boolean(button?.closest('[data-menu-panel]'))
+
+    if (event.key === 'ArrowDown') focusSibling(items, target, 1)
+    else if (event.key === 'ArrowUp') focusSibling(items, target, -1)
+    else if (event.key === 'Home') items[0]?.focus()
+    else if (event.key === 'End') items.at(-1)?.focus()
+    else if (event.key === 'ArrowRight' && isDisclosure(target)) openAndFocus(target, 'first')
+    else if (event.key === 'ArrowRight' && !isNested) closeAndFocusTopLevel(1)
+    else if (event.key === 'ArrowLeft' && !isNested) closeAndFocusTopLevel(-1)
+    else if ((event.key === 'ArrowLeft' || event.key === 'Escape') && button) {
+      setExpanded(button, false)
+      button.focus()
+    } else handled = false
+  }
+
+  if (handled) event.preventDefault()
+})
+
+document.addEventListener('click', (event) => {
+  const target = event.target as Element
+  const button = target.closest(`${menuSelector} button`)
+  if (button && isDisclosure(button)) {
+    setExpanded(button, button.getAttribute('aria-expanded') !== 'true')
+  } else if (!target.closest('[data-menu-panel]')) {
+    closeAll()
+  }
+})
+
+// Close the menus that focus moved out of, e.g. when tabbing past the last link
+document.addEventListener('focusin', (event) => {
+  const target = event.target as Node
+  document
+    .querySelectorAll<HTMLButtonElement>(`${menuSelector} button[aria-expanded="true"][aria-controls]`)
+    .forEach((button) => {
+      if (!button.parentElement?.contains(target)) setExpanded(button, false)
+    })
+})
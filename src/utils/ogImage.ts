@@ -0,0 +1,210 @@
+import { readFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import type { ImageMetadata } from 'astro'
+import { experimental_AstroContainer } from 'astro/container'
+import type { AstroComponentFactory } from 'astro/runtime/server/index.js'
+import satori from 'satori'
+import sharp from 'sharp'
+import { generatePalette, resolveColor } from '@utils/colorContrast'
+import type { OgImageConfig, ThemeConfig } from '@utils/defineThemeConfig'
+
+/**
+ * Size of the generated images, as recommended for Open Graph and Twitter cards
+ */
+export const ogImageSize = { width: 1200, height: 630 }
+
+/**
+ * A page that gets a generated Open Graph image
+ */
+export interface OgImagePage {
+  /**
+   * Path of the page without a trailing slash, e.g. `/blog/my-post`
+   */
+  path: string
+  title: string
+  description?: string
+}
+
+/**
+ * What a template draws: the page, the site and the resolved colors
+ */
+export interface OgImageTemplateData {
+  title: string
+  description?: string
+  siteName: string
+  /**
+   * The logo as a data URL with its size, if the theme config has one
+   */
+  logo?: { src: string; width: number; height: number }
+  colors: { background: string; foreground: string; accent: string }
+}
+
+/**
+ * An element as Satori takes it, the object form of JSX
+ */
+interface OgImageNode {
+  type: string
+  props: {
+    style?: Record<string, string | number>
+    children?: string | OgImageNode | (OgImageNode | false)[]
+  } & Record<string, unknown>
+}
+
+/**
+ * Create an element, like `h()` in JSX runtimes
+ */
+const h = (
+  type: string,
+  style: Record<string, string | number>,
+  children?: OgImageNode['props']['children'],
+  props: Record<string, unknown> = {},
+): OgImageNode => ({ type, props: { ...props, style, children } })
+
+/**
+ * The logo and site name in a row
+ */
+const renderBrand = (data: OgImageTemplateData, fontSize: number) =>
+  h('div', { display: 'flex', alignItems: 'center', gap: 24 }, [
+    data.logo !== undefined &&
+      h('img', {}, undefined, { src: data.logo.src, width: data.logo.width, height: data.logo.height }),
+    h('div', { fontSize, fontWeight: 700 }, data.siteName),
+  ])
+
+/**
+ * Templates by name, see `ogImage.template` in theme.config.ts. Change them or add one to restyle the images.
+ */
+export const ogImageTemplates: Record<OgImageConfig['template'], (data: OgImageTemplateData) => OgImageNode> = {
+  // Logo and site name at the top, the title and description at the bottom, an accent bar along the left edge
+  default: (data) =>
+    h(
+      'div',
+      {
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        width: '100%',
+        height: '100%',
+        padding: '72px 80px',
+        borderLeft: `24px solid ${data.colors.accent}`,
+        backgroundColor: data.colors.background,
+        color: data.colors.foreground,
+      },
+      [
+        renderBrand(data, 36),
+        h('div', { display: 'flex', flexDirection: 'column', gap: 24 }, [
+          h('div', { fontSize: data.title.length > 60 ? 56 : 72, fontWeight: 700, lineHeight: 1.1 }, data.title),
+          data.description !== undefined &&
+            h('div', { fontSize: 30, lineHeight: 1.4, display: 'block', lineClamp: 2 }, data.description),
+        ]),
+      ],
+    ),
+  // The title in the middle, the logo and site name below it, an accent bar along the bottom edge
+  centered: (data) =>
+    h(
+      'div',
+      {
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 48,
+        width: '100%',
+        height: '100%',
+        padding: '72px 96px',
+        borderBottom: `24px solid ${data.colors.accent}`,
+        backgroundColor: data.colors.background,
+        color: data.colors.foreground,
+        textAlign: 'center',
+      },
+      [
+        h('div', { fontSize: data.title.length > 60 ? 56 : 72, fontWeight: 700, lineHeight: 1.1 }, data.title),
+        renderBrand(data, 32),
+      ],
+    ),
+}
+
+/**
+ * Get the path of the generated image of a page
+ * @param pathname - The path of the page, e.g. `Astro.url.pathname`
+ * @returns The path of the image, e.g. `/og/blog/my-post.png`
+ */
+export function getOgImagePath(pathname: string): string {
+  return `/og${pathname.replace(/\/$/, '') || '/index'}.png`
+}
+
+const require = createRequire(import.meta.url)
+let fonts: Promise<Parameters<typeof satori>[1]['fonts']> | undefined
+
+/**
+ * Load the fonts from `@fontsource/atkinson-hyperlegible-next`, Satori reads WOFF but not WOFF2
+ */
+function loadFonts() {
+  const load = (weight: 400 | 700) =>
+    readFile(
+      require.resolve(
+        `@fontsource/atkinson-hyperlegible-next/files/atkinson-hyperlegible-next-latin-${weight}-normal.woff`,
+      ),
+    ).then((data) => ({ name: 'Atkinson Hyperlegible Next', data, weight, style: 'normal' as const }))
+
+  fonts ??= Promise.all([load(400), load(700)])
+  return fonts
+}
+
+/**
+ * Check whether an imported image is an SVG component, which Astro creates for `.svg` imports
+ */
+function isSvgComponent(image: ImageMetadata): image is ImageMetadata & AstroComponentFactory {
+  return 'isAstroComponentFactory' in image && image.isAstroComponentFactory === true
+}
+
+/**
+ * Read the logo as a data URL
+ * @description SVG imports are components, so they're rendered to get the markup; other images are read from
+ * the source file.
+ */
+async function getLogoSource(logo: ImageMetadata): Promise<string> {
+  if (isSvgComponent(logo)) {
+    const container = await experimental_AstroContainer.create()
+    const markup = await container.renderToString(logo)
+    const svg = markup.includes('xmlns=') ? markup : markup.replace('<svg', '<svg xmlns="http://www.w3.org/2000/svg"')
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`
+  }
+
+  const { fsPath } = logo as ImageMetadata & { fsPath: string }
+  const type = logo.format === 'jpg' ? 'jpeg' : logo.format
+  return `data:image/${type};base64,${(await readFile(fsPath)).toString('base64')}`
+}
+
+/**
+ * Render the Open Graph image of a page with the template, colors and logo from the theme config
+ * @param page - The title and description of the page
+ * @param config - The theme config
+ * @returns The PNG image
+ */
+export async function renderOgImage(page: OgImagePage, config: ThemeConfig): Promise<Uint8Array<ArrayBuffer>> {
+  const palette = generatePalette(config.colors)
+  const logoHeight = 64
+  const data: OgImageTemplateData = {
+    title: page.title,
+    description: page.description || undefined,
+    siteName: config.name,
+    logo: config.logo
+      ? {
+          src: await getLogoSource(config.logo),
+          width: Math.round((config.logo.width / config.logo.height) * logoHeight),
+          height: logoHeight,
+        }
+      : undefined,
+    colors: {
+      background: resolveColor(config.ogImage.background, palette),
+      foreground: resolveColor(config.ogImage.foreground, palette),
+      accent: resolveColor(config.ogImage.accent, palette),
+    },
+  }
+
+  const svg = await satori(ogImageTemplates[config.ogImage.template](data), {
+    ...ogImageSize,
+    fonts: await loadFonts(),
+  })
+  return new Uint8Array(await sharp(Buffer.from(svg)).png().toBuffer())
+}
@@ -0,0 +1,49 @@
+import { getCollection } from 'astro:content'
+import themeConfig from '@theme-config'
+import { getPosts } from '@utils/getPosts'
+import type { OgImagePage } from '@utils/ogImage'
+
+interface PageFrontmatter {
+  title?: string
+  description?: string
+}
+
+const markdownPages = import.meta.glob<PageFrontmatter>('/src/pages/**/*.{md,mdx}', { import: 'frontmatter' })
+
+let ogImagePages: Promise<OgImagePage[]> | undefined
+
+/**
+ * Get the pages that get a generated Open Graph image: blog posts, projects and Markdown and MDX pages with a title
+ * @returns The pages, none when `ogImage.enabled` is off in the theme config. Collected once per build or server.
+ */
+export function getOgImagePages(): Promise<OgImagePage[]> {
+  ogImagePages ??= (async () => {
+    if (!themeConfig.ogImage.enabled) return []
+
+    const posts = await getPosts()
+    const projects = await getCollection('projects')
+    const pages = await Promise.all(
+      Object.entries(markdownPages).map(async ([file, load]) => ({
+        path: file.replace(/^\/src\/pages/, '').replace(/(\/index)?\.mdx?$/, '') || '/',
+        frontmatter: await load(),
+      })),
+    )
+
+    return [
+      ...posts.map((post) => ({
+        path: `/blog/${post.id}`,
+        title: post.data.title,
+        description: post.data.description,
+      })),
+      ...projects.map((project) => ({
+        path: `/portfolio/${project.id}`,
+        title: project.data.title,
+        description: project.data.description,
+      })),
+      ...pages.flatMap(({ path, frontmatter }) =>
+        frontmatter.title ? [{ path, title: frontmatter.title, description: frontmatter.description }] : [],
+      ),
+    ]
+  })()
+  return ogImagePages
+}
@@ -0,0 +1,43 @@
+/**
+ * Client-side script for the preference controls in `PreferencesPanel.astro` and `ReadingPreferences.astro`.
+ * Import it from a component `<script>`; the listeners are delegated, so nested and repeated panels share them.
+ */
+
+type Preferences = NonNullable<Window['preferences']>
+type PreferenceName = Parameters<Preferences['get']>[0]
+type PreferenceValue = ReturnType<Preferences['get']>
+
+/**
+ * Show the current preferences in every panel, call it after adding a panel without a page load
+ */
+export function syncPreferencePanels(): void {
+  document.querySelectorAll<HTMLInputElement>('[data-preferences-panel] [data-preference]').forEach((input) => {
+    const value = window.preferences?.get(input.dataset.preference as PreferenceName)
+    input.checked = input.type === 'radio' ? input.value === value : value === true
+  })
+}
+
+/**
+ * Show the panels once the preferences engine is available, they're hidden without JavaScript
+ */
+function initPanels(): void {
+  if (!window.preferences) return
+  document.querySelectorAll<HTMLElement>('[data-preferences-panel]').forEach((panel) => (panel.hidden = false))
+  syncPreferencePanels()
+}
+
+document.addEventListener('change', (event) => {
+  const input = event.target as HTMLInputElement
+  const name = input.dataset?.preference as PreferenceName | undefined
+  if (!name || !input.closest('[data-preferences-panel]')) return
+  window.preferences?.set(name, input.type === 'radio' ? (input.value as PreferenceValue) : input.checked)
+})
+
+document.addEventListener('click', (event) => {
+  if ((event.target as Element).closest('[data-preferences-panel] [data-preferences-reset]')) {
+    window.preferences?.reset()
+  }
+})
+
+document.addEventListener('preferences:change', syncPreferencePanels)
+document.addEventListener('astro:page-load', initPanels)
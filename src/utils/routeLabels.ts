@@ -0,0 +1,19 @@
+import { getCollection } from 'astro:content'
+import { getPosts } from '@utils/getPosts'
+import { slugify } from '@utils/slugify'
+
+/**
+ * Get the labels of the pages generated from the content collections: blog posts, projects and project tag pages
+ * @returns Titles by href, e.g. `{ '/blog/my-post': 'My post', '/portfolio/tag/astro': 'Astro' }`
+ */
+export async function getRouteLabels(): Promise<Record<string, string>> {
+  const posts = await getPosts()
+  const projects = await getCollection('projects')
+  const tags = [...new Set(projects.flatMap((project) => project.data.tags))]
+
+  return Object.fromEntries([
+    ...posts.map((post) => [`/blog/${post.id}`, post.data.title]),
+    ...projects.map((project) => [`/portfolio/${project.id}`, project.data.title]),
+    ...tags.map((tag) => [`/portfolio/tag/${slugify(tag)}`, tag]),
+  ])
+}
@@ -0,0 +1,180 @@
+import type { UiStrings } from '@utils/defineThemeConfig'
+
+/**
+ * A page in the search index, see `src/utils/searchDocuments.ts` for what gets indexed
+ */
+export interface SearchDocument {
+  /**
+   * The page, e.g. `/blog/my-post`
+   */
+  href: string
+  title: string
+  description: string
+  /**
+   * What kind of page it is, shown with the result as its UI string from `searchTypeStrings`
+   */
+  type: 'post' | 'project' | 'page'
+  headings: string[]
+  tags: string[]
+  /**
+   * The text of the page without markup
+   */
+  body: string
+}
+
+/**
+ * A document that matches every term of a query
+ */
+export interface SearchResult {
+  document: SearchDocument
+  score: number
+  /**
+   * The part of the body around the first match, or the description when the body doesn't match
+   */
+  snippet: string
+}
+
+/**
+ * The UI strings that label each type of document
+ */
+export const searchTypeStrings = {
+  post: 'searchTypePost',
+  project: 'searchTypeProject',
+  page: 'searchTypePage',
+} as const satisfies Record<SearchDocument['type'], keyof UiStrings>
+
+/**
+ * How much a match in each field counts, a match in the title ranks a page above a match in its body
+ */
+const fieldWeights = {
+  title: 10,
+  headings: 5,
+  tags: 5,
+  description: 3,
+  body: 1,
+} satisfies Partial<Record<keyof SearchDocument, number>>
+
+const snippetLength = 160
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&#039;': "'",
+  '&nbsp;': ' ',
+}
+
+/**
+ * Turn the source of a page into searchable text: Markdown, MDX or HTML without frontmatter, imports, tags, expressions
+ * and formatting. Inline code like `<button>` is kept as text.
+ * @param source - The raw source, e.g. the `body` of a collection entry
+ * @returns The text, with whitespace collapsed
+ */
+export function toSearchText(source: string): string {
+  return source
+    .replace(/^---\r?\n[\s\S]*?\r?\n---/, ' ')
+    .replace(/^(import|export)\s.*$/gm, ' ')
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/`([^`\n]+)`/g, (_, code: string) => code.replace(/[<>]/g, ''))
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\{[^{}]*\}/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, ' ')
+    .replace(/`{3}.*|[*_~`|]+/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#0?39|nbsp);/g, (entity) => HTML_ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Split a query into lowercase terms
+ */
+const getTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean)
+
+/**
+ * Get the text around the first term found in the body
+ */
+function getSnippet(document: SearchDocument, terms: string[]): string {
+  const body = document.body.toLowerCase()
+  const index = terms.map((term) => body.indexOf(term)).find((position) => position >= 0)
+  if (index === undefined) return document.description
+
+  const start = Math.max(0, document.body.lastIndexOf(' ', Math.max(0, index - snippetLength / 3)) + 1)
+  const end = document.body.indexOf(' ', start + snippetLength)
+  const text = document.body.slice(start, end === -1 ? undefined : end)
+  return `${start > 0 ? '…' : ''}${text}${end === -1 ? '' : '…'}`
+}
+
+/**
+ * Find the documents that contain every term of a query, in the title, headings, tags, description or body
+ * @param documents - The search index
+ * @param query - What was searched for, terms are separated by spaces and matched case-insensitively
+ * @param limit - The maximum number of results
+ * @returns The matching documents, best match first
+ */
+export function searchDocuments(documents: SearchDocument[], query: string, limit = Infinity): SearchResult[] {
+  const terms = getTerms(query)
+  if (terms.length === 0) return []
+
+  return documents
+    .flatMap((document) => {
+      const fields = {
+        title: document.title,
+        headings: document.headings.join(' '),
+        tags: document.tags.join(' '),
+        description: document.description,
+        body: document.body,
+      }
+      let score = 0
+      for (const term of terms) {
+        const termScore = Object.entries(fieldWeights).reduce(
+          (total, [field, weight]) =>
+            fields[field as keyof typeof fieldWeights].toLowerCase().includes(term) ? total + weight : total,
+          0,
+        )
+        if (termScore === 0) return []
+        score += termScore
+      }
+      return [{ document, score, snippet: getSnippet(document, terms) }]
+    })
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title))
+    .slice(0, limit)
+}
+
+let searchIndex: Promise<SearchDocument[]> | undefined
+
+/**
+ * Fetch the search index in the browser, once per visit
+ * @returns The documents from `/search-index.json`
+ */
+export function loadSearchIndex(): Promise<SearchDocument[]> {
+  searchIndex ??= fetch('/search-index.json')
+    .then((response) => {
+      if (!response.ok) throw new Error(`Loading the search index failed with status ${response.status}`)
+      return response.json() as Promise<SearchDocument[]>
+    })
+    .catch((error: unknown) => {
+      // Try again on the next search
+      searchIndex = undefined
+      throw error
+    })
+  return searchIndex
+}
+
+/**
+ * Describe the number of results, e.g. for a live region
+ * @param templates - The `searchResults`, `searchResult` and `searchNoResults` UI strings
+ * @param count - The number of results
+ * @param query - What was searched for, replaces `{name}`
+ * @returns The message, with `{count}` replaced by the number of results
+ */
+export function formatResultCount(
+  templates: { results: string; result: string; noResults: string },
+  count: number,
+  query: string,
+): string {
+  const template = count === 0 ? templates.noResults : count === 1 ? templates.result : templates.results
+  return template.replaceAll('{count}', String(count)).replaceAll('{name}', query)
+}
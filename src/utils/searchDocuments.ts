@@ -0,0 +1,79 @@
+import type { MarkdownHeading } from 'astro'
+import { getCollection, render, type CollectionEntry } from 'astro:content'
+import { getPosts } from '@utils/getPosts'
+import { toSearchText, type SearchDocument } from '@utils/search'
+
+interface PageModule {
+  frontmatter: { title?: string; description?: string; tags?: string[] }
+  getHeadings: () => MarkdownHeading[]
+}
+
+const markdownPages = import.meta.glob<PageModule>('/src/pages/**/*.{md,mdx}')
+const markdownSources = import.meta.glob<string>('/src/pages/**/*.{md,mdx}', { query: '?raw', import: 'default' })
+
+let documents: Promise<SearchDocument[]> | undefined
+
+/**
+ * Get the headings of a collection entry, MDX entries are only parsed when rendered
+ */
+const getHeadings = async (entry: CollectionEntry<'posts' | 'projects'>) =>
+  (await render(entry)).headings.map((heading) => heading.text)
+
+/**
+ * Build the search index: blog posts, projects and Markdown and MDX pages with a title
+ * @returns The documents, built once per build or server
+ */
+export function getSearchDocuments(): Promise<SearchDocument[]> {
+  documents ??= (async () => {
+    const posts = await getPosts()
+    const projects = await getCollection('projects')
+    const pages = await Promise.all(
+      Object.entries(markdownPages).map(async ([file, load]) => ({
+        href: file.replace(/^\/src\/pages/, '').replace(/(\/index)?\.mdx?$/, '') || '/',
+        page: await load(),
+        source: await markdownSources[file](),
+      })),
+    )
+
+    return [
+      ...(await Promise.all(
+        posts.map(async (post) => ({
+          href: `/blog/${post.id}`,
+          title: post.data.title,
+          description: post.data.description,
+          type: 'post' as const,
+          headings: await getHeadings(post),
+          tags: post.data.tags,
+          body: toSearchText(post.body ?? ''),
+        })),
+      )),
+      ...(await Promise.all(
+        projects.map(async (project) => ({
+          href: `/portfolio/${project.id}`,
+          title: project.data.title,
+          description: project.data.description,
+          type: 'project' as const,
+          headings: await getHeadings(project),
+          tags: project.data.tags,
+          body: toSearchText(project.body ?? ''),
+        })),
+      )),
+      ...pages.flatMap(({ href, page, source }) =>
+        page.frontmatter.title
+          ? [
+              {
+                href,
+                title: page.frontmatter.title,
+                description: page.frontmatter.description ?? '',
+                type: 'page' as const,
+                headings: page.getHeadings().map((heading) => heading.text),
+                tags: page.frontmatter.tags ?? [],
+                body: toSearchText(source),
+              },
+            ]
+          : [],
+      ),
+    ]
+  })()
+  return documents
+}
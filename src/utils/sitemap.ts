@@ -0,0 +1,115 @@
+import { getCollection } from 'astro:content'
+import { formatSegment } from '@utils/breadcrumbs'
+import type { NavigationItem } from '@utils/defineThemeConfig'
+import { getLocale } from '@utils/i18n'
+import { getPosts } from '@utils/getPosts'
+import { getCurrentTrail, getNavigationLinks } from '@utils/navigation'
+import { getRouteLabels } from '@utils/routeLabels'
+
+/**
+ * A page in the sitemap
+ */
+export interface SitemapEntry {
+  title: string
+  href: string
+  description?: string
+}
+
+/**
+ * The pages under a top-level navigation item, or the pages outside the navigation
+ */
+export interface SitemapSection {
+  label: string
+  entries: SitemapEntry[]
+}
+
+interface PageFrontmatter {
+  title?: string
+  description?: string
+  excludeFromSitemap?: boolean
+}
+
+// Astro pages are read as text, importing them would add their styles and scripts to the sitemap page
+const astroPages = import.meta.glob<string>('/src/pages/**/*.astro', { query: '?raw', import: 'default' })
+const markdownPages = import.meta.glob<PageFrontmatter>('/src/pages/**/*.{md,mdx}', { import: 'frontmatter' })
+
+/**
+ * Get the path of a page from its file, the first page of a paginated list is the path of its directory
+ * @returns The path, or `undefined` for pages generated from a collection, like `/blog/[post].astro`
+ */
+function getPagePath(file: string): string | undefined {
+  const path =
+    file
+      .replace(/^\/src\/pages/, '')
+      .replace(/\.(astro|mdx?)$/, '')
+      .replace(/\/index$/, '')
+      .replace(/\/\[\.\.\.[^\]]+\]$/, '') || '/'
+  return path.includes('[') ? undefined : path
+}
+
+/**
+ * List the pages of the site, grouped by the top-level navigation items they're under
+ * @description The pages come from `src/pages` and `getRouteLabels`: blog posts, projects and tag pages. They're
+ * titled by their frontmatter, the navigation link to them or their route label, and described by their frontmatter,
+ * the navigation link or their collection entry. A page opts out with `excludeFromSitemap: true` in its Markdown or
+ * MDX frontmatter, or `export const excludeFromSitemap = true` in the frontmatter of an Astro page.
+ * @param code - The locale code, e.g. `Astro.currentLocale`
+ * @returns The sections in the order of the navigation, the pages outside the navigation last
+ */
+export async function getSitemapSections(code?: string): Promise<SitemapSection[]> {
+  const locale = getLocale(code)
+  const links = getNavigationLinks(locale.navigation).filter((link) => !link.external)
+  const getLink = (href: string) => links.find((link) => link.href.replace(/(.)\/$/, '$1') === href)
+
+  const pages: { href?: string; frontmatter: PageFrontmatter }[] = await Promise.all([
+    ...Object.entries(astroPages).map(async ([file, load]) => ({
+      href: getPagePath(file),
+      frontmatter: { excludeFromSitemap: /^export const excludeFromSitemap = true\b/m.test(await load()) },
+    })),
+    ...Object.entries(markdownPages).map(async ([file, load]) => ({
+      href: getPagePath(file),
+      frontmatter: await load(),
+    })),
+  ])
+  const descriptions = new Map<string, string>([
+    ...(await getPosts()).map((post) => [`/blog/${post.id}`, post.data.description] as const),
+    ...(await getCollection('projects')).map(
+      (project) => [`/portfolio/${project.id}`, project.data.description] as const,
+    ),
+  ])
+  const entries: SitemapEntry[] = [
+    ...pages.flatMap(({ href, frontmatter }) => {
+      if (!href || frontmatter.excludeFromSitemap) return []
+      const link = getLink(href)
+      const title =
+        frontmatter.title ??
+        link?.label ??
+        (href === '/' ? locale.strings.home : formatSegment(href.split('/').at(-1)!))
+      return [{ title, href, description: frontmatter.description ?? link?.description }]
+    }),
+    ...Object.entries(await getRouteLabels()).map(([href, title]) => ({
+      title,
+      href,
+      description: descriptions.get(href),
+    })),
+  ]
+
+  // Pages linked from the navigation first, in its order, then the others in the order above
+  const getOrder = (entry: SitemapEntry) => {
+    const index = links.indexOf(getLink(entry.href)!)
+    return index === -1 ? links.length : index
+  }
+  entries.sort((a, b) => getOrder(a) - getOrder(b))
+
+  const sections = new Map<NavigationItem, SitemapSection>(
+    locale.navigation.map((item) => [item, { label: item.label, entries: [] }]),
+  )
+  const otherPages: SitemapSection = { label: locale.strings.pages, entries: [] }
+  for (const entry of entries) {
+    const topLevelItem = getCurrentTrail(locale.navigation, entry.href)[0]
+    const section = (topLevelItem && sections.get(topLevelItem)) ?? otherPages
+    section.entries.push(entry)
+  }
+
+  return [...sections.values(), otherPages].filter((section) => section.entries.length > 0)
+}
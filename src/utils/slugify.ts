@@ -1,12 +1,138 @@
+/**
+ * Letters that Unicode normalization doesn't decompose into a base letter and a diacritic
+ */
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ħ: 'h',
+  ı: 'i',
+}
+
+/**
+ * Latin spelling of Cyrillic and Greek letters, used when transliterating
+ */
+const SCRIPT_LETTERS: Record<string, string> = {
+  а: 'a',
+  б: 'b',
+  в: 'v',
+  г: 'g',
+  д: 'd',
+  е: 'e',
+  ё: 'e',
+  ж: 'zh',
+  з: 'z',
+  и: 'i',
+  й: 'y',
+  к: 'k',
+  л: 'l',
+  м: 'm',
+  н: 'n',
+  о: 'o',
+  п: 'p',
+  р: 'r',
+  с: 's',
+  т: 't',
+  у: 'u',
+  ф: 'f',
+  х: 'kh',
+  ц: 'ts',
+  ч: 'ch',
+  ш: 'sh',
+  щ: 'shch',
+  ъ: '',
+  ы: 'y',
+  ь: '',
+  э: 'e',
+  ю: 'yu',
+  я: 'ya',
+  є: 'ye',
+  і: 'i',
+  ї: 'yi',
+  ґ: 'g',
+  α: 'a',
+  β: 'v',
+  γ: 'g',
+  δ: 'd',
+  ε: 'e',
+  ζ: 'z',
+  η: 'i',
+  θ: 'th',
+  ι: 'i',
+  κ: 'k',
+  λ: 'l',
+  μ: 'm',
+  ν: 'n',
+  ξ: 'x',
+  ο: 'o',
+  π: 'p',
+  ρ: 'r',
+  σ: 's',
+  ς: 's',
+  τ: 't',
+  υ: 'y',
+  φ: 'f',
+  χ: 'ch',
+  ψ: 'ps',
+  ω: 'o',
+}
+
+export interface SlugifyOptions {
+  /**
+   * Transliterate Cyrillic and Greek to Latin and drop any other non-ASCII letters, for an ASCII-only slug
+   * @default false
+   */
+  transliterate?: boolean
+  /**
+   * Slug to use when nothing is left of the text, instead of a short hash of it
+   */
+  fallback?: string
+}
+
+/**
+ * Create a short, stable hash of a string (32-bit FNV-1a in base 36)
+ * @param text - The text to hash
+ * @returns The hash
+ */
+function hash(text: string): string {
+  let value = 0x811c9dc5
+  for (const char of text) {
+    value ^= char.codePointAt(0) ?? 0
+    value = Math.imul(value, 0x01000193) >>> 0
+  }
+  return value.toString(36)
+}
+
 /**
  * Convert a string to a URL-friendly slug
+ * @description Diacritics are removed ("Überblick" becomes "uberblick") and letters of other scripts are kept
+ * unless `transliterate` is set. The result is never empty.
  * @param text - The text to convert to a slug
+ * @param options - Transliteration and fallback options
  * @returns A slugified string
  */
-export function slugify(text: string): string {
-  return text
+export function slugify(text: string, options: SlugifyOptions = {}): string {
+  let slug = text
+    .normalize('NFKD')
     .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
+    // Only Latin and Greek diacritics are dropped, marks in other scripts (й, ビ) are part of the letter
+    .replace(/([\p{Script=Latin}\p{Script=Greek}])\p{M}+/gu, '$1')
+    .normalize('NFC')
+    .replace(/./gu, (char) => SPECIAL_LETTERS[char] ?? char)
+    .replace(/['"‘’`]/g, '')
+
+  if (options.transliterate) {
+    slug = slug.replace(/./gu, (char) => SCRIPT_LETTERS[char] ?? char).replace(/[^a-z0-9]+/g, '-')
+  } else {
+    slug = slug.replace(/[^\p{L}\p{N}]+/gu, '-')
+  }
+
+  slug = slug.replace(/^-+|-+$/g, '')
+
+  return slug || options.fallback || `n${hash(text)}`
 }
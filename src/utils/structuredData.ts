@@ -0,0 +1,184 @@
+import type { ImageMetadata } from 'astro'
+import type { ThemeConfig } from '@utils/defineThemeConfig'
+import type { ResolvedLocale } from '@utils/i18n'
+
+/**
+ * A schema.org node of the page's JSON-LD graph
+ */
+export interface StructuredDataNode {
+  '@type': string
+  '@id'?: string
+  [property: string]: unknown
+}
+
+/**
+ * A question and its answer in plain text, the same text search engines read from the `FAQPage` node
+ */
+export interface FaqItem {
+  question: string
+  answer: string
+  /**
+   * Further reading, shown as a link below the answer
+   */
+  link?: { label: string; href: string }
+}
+
+/**
+ * What describes a blog post or project
+ */
+export interface CreativeWorkData {
+  title: string
+  description?: string
+  /**
+   * The canonical URL of the page
+   */
+  url: string
+  author?: string
+  tags?: string[]
+  image?: ImageMetadata | string | null
+  pubDate?: Date
+  updatedDate?: Date
+}
+
+/**
+ * Get the absolute URL of an image, a path or an imported image
+ */
+function getImageUrl(image: ImageMetadata | string, site: URL): string {
+  return new URL(typeof image === 'string' ? image : image.src, site).href
+}
+
+/**
+ * Describe the site owner, from `name`, `logo` and `socials` in the theme config
+ * @param config - The theme config
+ * @param site - The URL of the site, e.g. `Astro.site`
+ * @returns An `Organization` node
+ */
+export function getOrganizationSchema(config: ThemeConfig, site: URL): StructuredDataNode {
+  const sameAs = config.socials.map((social) => social.href).filter((href) => /^https?:/.test(href))
+
+  return {
+    '@type': 'Organization',
+    '@id': new URL('/#organization', site).href,
+    name: config.name,
+    url: new URL('/', site).href,
+    ...(config.logo && { logo: getImageUrl(config.logo, site) }),
+    ...(sameAs.length > 0 && { sameAs }),
+  }
+}
+
+/**
+ * Describe the site in a language, published by the organization
+ * @param locale - The locale of the page
+ * @param homeHref - The home page of the locale, e.g. `/nl/`
+ * @param site - The URL of the site
+ * @returns A `WebSite` node
+ */
+export function getWebSiteSchema(locale: ResolvedLocale, homeHref: string, site: URL): StructuredDataNode {
+  return {
+    '@type': 'WebSite',
+    '@id': new URL(`${homeHref}#website`, site).href,
+    name: locale.seo.title,
+    ...(locale.seo.description && { description: locale.seo.description }),
+    url: new URL(homeHref, site).href,
+    inLanguage: locale.lang,
+    publisher: { '@id': new URL('/#organization', site).href },
+  }
+}
+
+/**
+ * Describe a blog post or portfolio project
+ * @param type - `BlogPosting` for blog posts, `CreativeWork` for projects
+ * @param work - The title, URL, author, tags and such
+ * @param site - The URL of the site
+ * @returns The node of the post or project
+ */
+export function getCreativeWorkSchema(
+  type: 'BlogPosting' | 'CreativeWork',
+  work: CreativeWorkData,
+  site: URL,
+): StructuredDataNode {
+  const url = new URL(work.url, site).href
+  const dateModified = work.updatedDate ?? work.pubDate
+
+  return {
+    '@type': type,
+    '@id': `${url}#${type === 'BlogPosting' ? 'article' : 'work'}`,
+    [type === 'BlogPosting' ? 'headline' : 'name']: work.title,
+    ...(work.description && { description: work.description }),
+    url,
+    mainEntityOfPage: url,
+    ...(work.author && { author: { '@type': 'Person', name: work.author } }),
+    ...(work.tags && work.tags.length > 0 && { keywords: work.tags.join(', ') }),
+    ...(work.image && { image: getImageUrl(work.image, site) }),
+    ...(work.pubDate && { datePublished: work.pubDate.toISOString() }),
+    ...(dateModified && { dateModified: dateModified.toISOString() }),
+    publisher: { '@id': new URL('/#organization', site).href },
+  }
+}
+
+/**
+ * Describe a list of frequently asked questions
+ * @param items - The questions and answers, as shown on the page
+ * @returns A `FAQPage` node
+ */
+export function getFaqPageSchema(items: FaqItem[]): StructuredDataNode {
+  return {
+    '@type': 'FAQPage',
+    mainEntity: items.map((item) => ({
+      '@type': 'Question',
+      name: item.question,
+      acceptedAnswer: { '@type': 'Answer', text: item.answer },
+    })),
+  }
+}
+
+/**
+ * Describe a breadcrumb trail
+ * @param breadcrumbs - The trail from `getBreadcrumbs`
+ * @param site - The URL the hrefs are relative to, e.g. `Astro.site`
+ * @returns A `BreadcrumbList` node
+ */
+export function getBreadcrumbListSchema(breadcrumbs: { label: string; href: string }[], site: URL): StructuredDataNode {
+  return {
+    '@type': 'BreadcrumbList',
+    itemListElement: breadcrumbs.map((breadcrumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: breadcrumb.label,
+      item: new URL(breadcrumb.href, site).href,
+    })),
+  }
+}
+
+/**
+ * Combine the nodes every page has with those of the page itself
+ * @param defaults - The `Organization` and `WebSite` nodes
+ * @param nodes - The nodes of the page. A node with the `@type` of a default is merged into it, so its properties
+ * extend or override the default; other nodes are added.
+ * @returns The nodes of the page's graph
+ */
+export function mergeStructuredData(
+  defaults: StructuredDataNode[],
+  nodes: StructuredDataNode[] = [],
+): StructuredDataNode[] {
+  const isDefault = (node: StructuredDataNode) => defaults.some((item) => item['@type'] === node['@type'])
+
+  return [
+    ...defaults.map((item) =>
+      nodes.filter((node) => node['@type'] === item['@type']).reduce((merged, node) => ({ ...merged, ...node }), item),
+    ),
+    ...nodes.filter((node) => !isDefault(node)),
+  ]
+}
+
+/**
+ * Serialize nodes for a `<script type="application/ld+json">`
+ * @param nodes - One node, or the nodes of a graph
+ * @returns The JSON, with `<` escaped so it can't close the script element
+ */
+export function serializeStructuredData(nodes: StructuredDataNode | StructuredDataNode[]): string {
+  const data = Array.isArray(nodes)
+    ? { '@context': 'https://schema.org', '@graph': nodes }
+    : { '@context': 'https://schema.org', ...nodes }
+  return JSON.stringify(data).replaceAll('<', '\\u003c')
+}
@@ -0,0 +1,29 @@
+import { i18n } from 'astro:config/server'
+import themeConfig from '@theme-config'
+import { checkThemeContrast } from '@utils/colorContrast'
+
+/**
+ * Checks of the theme config that need the Astro config or only log. The `theme-config-checks` integration in
+ * astro.config.mjs imports this module into every page on the server, so it runs once per build or server and never
+ * in the browser, where `@theme-config` is imported as well.
+ */
+
+const astroLocales = (i18n?.locales ?? []).map((locale) => (typeof locale === 'string' ? locale : locale.path))
+const themeLocales = Object.keys(themeConfig.locales)
+
+if (
+  i18n?.defaultLocale !== themeConfig.defaultLocale ||
+  astroLocales.length !== themeLocales.length ||
+  astroLocales.some((locale) => !themeLocales.includes(locale))
+) {
+  throw new Error(
+    `The locales in theme.config.ts (${themeLocales.join(', ')}, default ${themeConfig.defaultLocale}) don't match \`i18n\` in astro.config.mjs (${astroLocales.join(', ') || 'none'}, default ${i18n?.defaultLocale ?? 'none'}). List the same locales in both, with the same default locale.`,
+  )
+}
+
+// With `contrast.enforce: 'error'` the failures are validation errors, see `defineThemeConfig`
+if (themeConfig.contrast.enforce === 'warn') {
+  checkThemeContrast(themeConfig.colors, themeConfig.contrast.level).forEach((failure) => {
+    console.warn(`[theme.config] colors.${failure.pair.scheme}.${failure.pair.foreground}: ${failure.message}`)
+  })
+}
@@ -0,0 +1,322 @@
+import test, { after } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFile, mkdtemp, rm } from 'node:fs/promises'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { LoaderContext } from 'astro/loaders'
+import { blogSourceLoader, fetchBlogPosts, resolveSlugCollisions, type BlogSourcePost } from '@utils/blogSource'
+import type { BlogConfig } from '@utils/defineThemeConfig'
+
+const readFixture = async (name: string): Promise<unknown> =>
+  JSON.parse(await readFile(new URL(`./fixtures/blog/${name}`, import.meta.url), 'utf8'))
+
+const fixtures = {
+  json: (await readFixture('json.json')) as Record<string, unknown>[],
+  wordpress: [await readFixture('wordpress-page-1.json'), await readFixture('wordpress-page-2.json')],
+  ghost: await readFixture('ghost.json'),
+}
+
+const ghostKey = 'secret-content-api-key'
+
+// Stand-in blog API, `online` and `jsonPosts` change what it returns
+const api = {
+  online: true,
+  jsonPosts: fixtures.json,
+  requests: [] as URL[],
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost')
+  api.requests.push(url)
+  const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    response.end(JSON.stringify(body))
+  }
+
+  if (!api.online) return send(503, { error: 'Service unavailable' })
+  if (url.pathname === '/posts') return send(200, api.jsonPosts)
+  if (url.pathname === '/wrapped') return send(200, { data: { posts: api.jsonPosts } })
+  if (url.pathname === '/wp-json/wp/v2/posts') {
+    const page = Number(url.searchParams.get('page'))
+    return send(200, fixtures.wordpress[page - 1] ?? [], { 'X-WP-TotalPages': String(fixtures.wordpress.length) })
+  }
+  if (url.pathname === '/ghost/api/content/posts/') {
+    if (url.searchParams.get('key') !== ghostKey) return send(401, { errors: [{ message: 'Unknown Content API Key' }] })
+    return send(200, fixtures.ghost)
+  }
+  return send(404, { error: 'Not found' })
+})
+
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+after(() => server.close())
+
+/**
+ * Reset the stand-in API between tests
+ */
+function resetApi(): void {
+  api.online = true
+  api.jsonPosts = fixtures.json
+  api.requests = []
+}
+
+/**
+ * A mapped post with only the fields slug collisions depend on
+ */
+function createPost(slug: string, pubDate?: string): BlogSourcePost {
+  return { slug, title: slug, description: '', body: '', pubDate, tags: [], heroImageAlt: '', redirectFrom: [] }
+}
+
+/**
+ * Run the content loader against the stand-in API, the way Astro runs it during a build
+ * @returns The stored entries by id and the logged messages
+ */
+async function runLoader(
+  root: URL,
+  config: Partial<BlogConfig>,
+  url = `${origin}/posts`,
+): Promise<{ entries: Map<string, Record<string, unknown>>; infos: string[]; warnings: string[] }> {
+  const entries = new Map<string, Record<string, unknown>>()
+  const infos: string[] = []
+  const warnings: string[] = []
+  const context = {
+    collection: 'posts',
+    config: { root },
+    store: {
+      clear: () => entries.clear(),
+      set: (entry: { id: string; data: Record<string, unknown> }): boolean => {
+        entries.set(entry.id, entry.data)
+        return true
+      },
+    },
+    logger: {
+      info: (message: string) => {
+        infos.push(message)
+      },
+      warn: (message: string) => {
+        warnings.push(message)
+      },
+    },
+    parseData: async ({ data }: { id: string; data: Record<string, unknown> }) => data,
+    renderMarkdown: async (body: string) => ({ html: body }),
+    generateDigest: (data: Record<string, unknown> | string) => JSON.stringify(data),
+  } as LoaderContext
+
+  await blogSourceLoader({ config, url, key: ghostKey, defaultAuthor: 'Site author' }).load(context)
+  return { entries, infos, warnings }
+}
+
+test('json adapter maps JSONPlaceholder-style posts and reads nested arrays', async () => {
+  resetApi()
+  const posts = await fetchBlogPosts('json', { url: `${origin}/posts`, limit: 30 })
+
+  assert.deepEqual(
+    posts.map((post) => post.slug),
+    ['getting-started-with-accessible-forms', 'getting-started-with-accessible-forms-2', 'focus-styles'],
+  )
+  assert.equal(posts[0].description, 'Label every field. Group related fields in a fieldset.')
+  assert.deepEqual(posts[0].redirectFrom, [])
+  // Both posts used to be published at the same legacy slug, which showed the last one
+  assert.deepEqual(posts[1].redirectFrom, ['getting-started-with-accessible'])
+  assert.deepEqual(
+    { author: posts[2].author, tags: posts[2].tags, pubDate: posts[2].pubDate, description: posts[2].description },
+    { author: 'Ada', tags: ['css', 'keyboard'], pubDate: '2025-03-01', description: 'Make the focus visible.' },
+  )
+
+  const wrapped = await fetchBlogPosts('json', { url: `${origin}/wrapped`, itemsPath: 'data.posts', limit: 1 })
+  assert.deepEqual(
+    wrapped.map((post) => post.title),
+    ['Getting started with accessible forms'],
+  )
+  await assert.rejects(
+    fetchBlogPosts('json', { url: `${origin}/wrapped`, limit: 30 }),
+    /Expected an array of posts in the response of/,
+  )
+})
+
+test('json adapter applies field mapping overrides', async () => {
+  resetApi()
+  const [post] = await fetchBlogPosts(
+    'json',
+    { url: `${origin}/posts`, limit: 1 },
+    { slug: 'id', description: 'title' },
+  )
+
+  assert.equal(post.slug, '1')
+  assert.equal(post.description, 'Getting started with accessible forms')
+})
+
+test('wordpress adapter follows X-WP-TotalPages and maps embedded fields', async () => {
+  resetApi()
+  const posts = await fetchBlogPosts('wordpress', { url: origin, limit: 10 })
+
+  assert.deepEqual(
+    api.requests.map((url) => [url.pathname, url.searchParams.get('page'), url.searchParams.get('_embed')]),
+    [
+      ['/wp-json/wp/v2/posts', '1', '1'],
+      ['/wp-json/wp/v2/posts', '2', '1'],
+    ],
+  )
+  assert.equal(api.requests[0].searchParams.get('per_page'), '10')
+  assert.deepEqual(
+    posts.map((post) => post.slug),
+    ['alt-text', 'headings', 'skip-links'],
+  )
+  assert.deepEqual(
+    {
+      title: posts[0].title,
+      description: posts[0].description,
+      author: posts[0].author,
+      tags: posts[0].tags,
+      heroImage: posts[0].heroImage,
+      heroImageAlt: posts[0].heroImageAlt,
+    },
+    {
+      title: 'Alt text & captions',
+      description: 'Describe what matters.',
+      author: 'Grace',
+      tags: ['images', 'content'],
+      heroImage: 'https://example.com/alt.jpg',
+      heroImageAlt: 'A camera',
+    },
+  )
+})
+
+test('wordpress adapter stops paginating once the limit is reached', async () => {
+  resetApi()
+  const posts = await fetchBlogPosts('wordpress', { url: `${origin}/wp-json/wp/v2/posts`, limit: 2 })
+
+  assert.equal(api.requests.length, 1)
+  assert.equal(posts.length, 2)
+})
+
+test('ghost adapter sends the Content API key and maps posts', async () => {
+  resetApi()
+  const [post] = await fetchBlogPosts('ghost', { url: origin, key: ghostKey, limit: 5 })
+
+  assert.equal(api.requests[0].searchParams.get('include'), 'tags,authors')
+  assert.equal(api.requests[0].searchParams.get('limit'), '5')
+  assert.deepEqual(
+    { slug: post.slug, description: post.description, author: post.author, tags: post.tags },
+    { slug: 'reduced-motion', description: 'Respect prefers-reduced-motion.', author: 'Alan', tags: ['Motion'] },
+  )
+  await assert.rejects(fetchBlogPosts('ghost', { url: origin, limit: 5 }), /needs a Content API key/)
+})
+
+test('fetch errors leave the API key out of the message', async () => {
+  resetApi()
+  await assert.rejects(fetchBlogPosts('ghost', { url: origin, key: 'wrong-key', limit: 5 }), (error: Error) => {
+    assert.match(error.message, /\/ghost\/api\/content\/posts\/ returned 401/)
+    assert.ok(!error.message.includes('wrong-key'))
+    return true
+  })
+})
+
+test('resolveSlugCollisions keeps the slug for the oldest post', () => {
+  const posts = resolveSlugCollisions([
+    createPost('news', '2025-03-01T00:00:00Z'),
+    createPost('news', 'March 1, 2024'),
+    createPost('news'),
+    createPost('news', '2024-12-31'),
+  ])
+
+  assert.deepEqual(
+    posts.map((post) => post.slug),
+    ['news-3', 'news', 'news-4', 'news-2'],
+  )
+})
+
+test('resolveSlugCollisions skips slugs that are taken by another post', () => {
+  const posts = resolveSlugCollisions([createPost('news', '2025-01-01'), createPost('news-2'), createPost('news')])
+
+  assert.deepEqual(
+    posts.map((post) => post.slug),
+    ['news', 'news-2', 'news-3'],
+  )
+})
+
+test('loader keeps the URLs of undated posts when a post is added in front', async () => {
+  resetApi()
+  const root = pathToFileURL(`${await mkdtemp(join(tmpdir(), 'blog-source-'))}/`)
+  const [first, second] = fixtures.json
+
+  try {
+    const before = await runLoader(root, { source: 'json' })
+    const firstDate = before.entries.get('getting-started-with-accessible-forms')?.pubDate
+
+    // A new post whose title maps to the same slug, APIs list the newest post first
+    api.jsonPosts = [{ id: 4, title: 'Getting started with accessible forms!', body: 'A newer post.' }, first, second]
+    const afterAdding = await runLoader(root, { source: 'json', cacheTtl: 0 })
+
+    assert.equal(afterAdding.entries.get('getting-started-with-accessible-forms')?.pubDate, firstDate)
+    assert.equal(
+      afterAdding.entries.get('getting-started-with-accessible-forms-2')?.description,
+      'A second post with the same title.',
+    )
+    assert.equal(afterAdding.entries.get('getting-started-with-accessible-forms-3')?.description, 'A newer post.')
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test('loader falls back to the cache when the API is down, unless the mapping changed', async () => {
+  resetApi()
+  const root = pathToFileURL(`${await mkdtemp(join(tmpdir(), 'blog-source-'))}/`)
+
+  try {
+    await runLoader(root, { source: 'json' })
+    api.online = false
+
+    const offline = await runLoader(root, { source: 'json', cacheTtl: 0 })
+    assert.equal(offline.entries.size, 3)
+    assert.match(offline.warnings[0], /returned 503 .*; using 3 cached posts from/)
+    assert.equal(offline.entries.get('focus-styles')?.author, 'Ada')
+    assert.equal(offline.entries.get('getting-started-with-accessible-forms')?.author, 'Site author')
+
+    const remapped = await runLoader(root, { source: 'json', cacheTtl: 0, fields: { slug: 'id' } })
+    assert.equal(remapped.entries.size, 0)
+    assert.match(remapped.warnings[0], /; no posts loaded\.$/)
+
+    await assert.rejects(
+      runLoader(root, { source: 'json', cacheTtl: 0, fields: { slug: 'id' }, strict: true }),
+      /No cached posts are available\./,
+    )
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test('loader uses fresh cached posts without fetching', async () => {
+  resetApi()
+  const root = pathToFileURL(`${await mkdtemp(join(tmpdir(), 'blog-source-'))}/`)
+
+  try {
+    await runLoader(root, { source: 'json' })
+    api.requests = []
+
+    const cached = await runLoader(root, { source: 'json', cacheTtl: 60 })
+    assert.equal(api.requests.length, 0)
+    assert.match(cached.infos[0], /^Using 3 cached blog posts from /)
+    assert.equal(cached.entries.size, 3)
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test('strict loader fails without an API URL or posts', async () => {
+  resetApi()
+  const root = pathToFileURL(`${await mkdtemp(join(tmpdir(), 'blog-source-'))}/`)
+
+  try {
+    await assert.rejects(runLoader(root, { source: 'json', strict: true }, ''), /needs BLOG_API_URL to be set\./)
+
+    api.jsonPosts = []
+    await assert.rejects(runLoader(root, { source: 'json', strict: true }), /returned no posts\./)
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,11 @@
+import { registerHooks } from 'node:module'
+
+// Resolve the `@utils/*` path alias from tsconfig.json, Vite resolves it when the site is built
+registerHooks({
+  resolve(specifier, context, nextResolve) {
+    if (specifier.startsWith('@utils/')) {
+      return nextResolve(new URL(`../src/utils/${specifier.slice('@utils/'.length)}.ts`, import.meta.url).href, context)
+    }
+    return nextResolve(specifier, context)
+  },
+})
@@ -13,11 +13,58 @@ export default defineThemeConfig({
     author: 'Incluud',
     image: previewImage, // Can also be a string e.g. '/social-preview-image.png',
   },
+  // RSS, Atom and JSON feeds of the blog and portfolio at `/feeds/blog/` and `/feeds/portfolio/`, with the whole
+  // post (`full`) or only its description (`summary`)
+  feeds: {
+    formats: ['rss', 'atom', 'json'],
+    content: 'full',
+    limit: 20,
+  },
+  // Social preview images generated at build time for blog posts, projects and Markdown pages without an image,
+  // with the logo, the page title and these palette or hex colors. The templates are in `src/utils/ogImage.ts`
+  ogImage: {
+    template: 'default',
+    background: 'neutral-900',
+    foreground: 'neutral-100',
+    accent: 'primary-300',
+  },
+  // Brand colors generate the `--color-*` palettes. Set steps that don't work out for your brand explicitly,
+  // e.g. `primary: { base: '#ffd800', steps: { 400: '#8a6d00', 500: '#6b5500' } }`
   colors: {
     primary: '#d648ff',
     secondary: '#00d1b7',
     neutral: '#b9bec4',
     outline: '#ff4500',
+    // Semantic colors per color scheme, as palette colors or hex colors
+    light: {
+      link: 'primary-400',
+      border: 'neutral-900',
+      outline: 'outline-200',
+    },
+    dark: {
+      link: 'secondary-100',
+      border: 'neutral-100',
+      outline: 'outline-100',
+    },
+  },
+  // Check the palette generated from `colors` at build time: 'AA', 'AAA' or 'APCA', and 'error', 'warn' or 'off'
+  contrast: {
+    level: 'AA',
+    enforce: 'error',
+  },
+  // Font families, font sizes, space and border radius: change or add steps, e.g. `spacing: { '6xl': '12rem' }`.
+  // Run `npm run tokens` after adding or removing tokens to update the Tailwind theme and the design token files
+  typography: {
+    fontFamilies: {
+      default: "'Atkinson Hyperlegible', sans-serif",
+    },
+  },
+  // Page navigations: announce the new page, move focus to the first matching target, and skip the view transition
+  // animations when reduced motion is preferred
+  transitions: {
+    announce: true,
+    focusTargets: ['#main-content h1', '#main-content'],
+    disableOnReducedMotion: true,
   },
   navigation: {
     darkmode: true,
@@ -37,43 +84,69 @@ export default defineThemeConfig({
         label: 'Portfolio',
         href: '/portfolio',
       },
+      // A mega menu groups links in headed sections. Use `type: 'dropdown'` for a plain list of links, dropdowns
+      // can hold dropdowns for nested submenus
       {
         label: 'Features',
-        type: 'dropdown',
-        items: [
-          {
-            label: 'Accessibility statement',
-            href: '/accessibility-statement',
-          },
+        type: 'mega',
+        sections: [
           {
-            label: 'Accessible components',
-            href: '/accessible-components',
+            heading: 'Accessibility',
+            items: [
+              {
+                label: 'Accessibility statement',
+                href: '/accessibility-statement',
+                description: 'An example statement to start from',
+              },
+              {
+                label: 'Accessible components',
+                href: '/accessible-components',
+                description: 'Accordions, modals, tabs and more',
+              },
+              {
+                label: 'Accessible launcher',
+                href: '/accessible-launcher',
+                description: 'Search and act from the keyboard',
+              },
+              {
+                label: 'Color contrast checker',
+                href: '/color-contrast-checker',
+                description: 'Tune the palette with WCAG and APCA',
+              },
+            ],
           },
           {
-            label: 'Accessible launcher',
-            href: '/accessible-launcher',
-          },
-          {
-            label: 'Color contrast checker',
-            href: '/color-contrast-checker',
-          },
-          {
-            label: 'Markdown page',
-            href: '/markdown-page',
-          },
-          {
-            label: 'MDX page',
-            href: '/mdx-page',
-          },
-          {
-            label: '404 page',
-            href: '/404',
-          },
-          {
-            label: 'Sitemap',
-            href: '/sitemap',
+            heading: 'Pages',
+            items: [
+              {
+                label: 'Markdown page',
+                href: '/markdown-page',
+              },
+              {
+                label: 'MDX page',
+                href: '/mdx-page',
+              },
+              {
+                label: '404 page',
+                href: '/404',
+              },
+              {
+                label: 'Sitemap',
+                href: '/sitemap',
+              },
+              {
+                label: 'Search',
+                href: '/search',
+              },
+            ],
           },
         ],
+        featured: {
+          label: 'Start your own project',
+          href: 'https://www.npmjs.com/package/create-accessible-astro-starter',
+          description: 'Pick a preset and create a site with npm create accessible-astro-starter',
+          external: true,
+        },
       },
       {
         type: 'link',
@@ -107,4 +180,128 @@ export default defineThemeConfig({
       icon: 'lucide:hand-heart',
     },
   ],
+  // Footer link columns and legal links, each rendered as a navigation landmark. Add contact details with e.g.
+  // contact: { address: ['Main Street 1', '1234 AB Amsterdam'], email: 'hello@example.com', phone: '+31 20 123 4567' }
+  footer: {
+    columns: [
+      {
+        heading: 'Features',
+        links: [
+          {
+            label: 'Accessible components',
+            href: '/accessible-components',
+          },
+          {
+            label: 'Color contrast checker',
+            href: '/color-contrast-checker',
+          },
+          {
+            label: 'Markdown page',
+            href: '/markdown-page',
+          },
+          {
+            label: 'MDX page',
+            href: '/mdx-page',
+          },
+          {
+            label: '404 page',
+            href: '/404-page',
+          },
+        ],
+      },
+      {
+        heading: 'Incluud projects',
+        links: [
+          {
+            label: 'Accessible Astro Starter',
+            href: 'https://accessible-astro-starter.incluud.dev',
+            external: true,
+          },
+          {
+            label: 'Accessible Astro Dashboard',
+            href: 'https://accessible-astro-dashboard.incluud.dev',
+            external: true,
+          },
+          {
+            label: 'Accessible Astro Components',
+            href: 'https://accessible-astro-starter.incluud.dev/accessible-components',
+            external: true,
+          },
+          {
+            label: 'Accessible Astro Docs',
+            href: 'https://accessible-astro-docs.incluud.dev',
+            external: true,
+          },
+          {
+            label: 'Color Contrast Checker',
+            href: 'https://color-contrast.incluud.dev',
+            external: true,
+          },
+        ],
+      },
+      {
+        heading: 'Developer tools',
+        links: [
+          {
+            label: 'Web Developer Extension',
+            href: 'https://chrispederick.com/work/web-developer/',
+            external: true,
+          },
+          {
+            label: 'Accessibility Insights',
+            href: 'https://accessibilityinsights.io/',
+            external: true,
+          },
+          {
+            label: 'axe DevTools',
+            href: 'https://www.deque.com/axe/devtools/',
+            external: true,
+          },
+          {
+            label: 'WAVE Web Accessibility',
+            href: 'https://wave.webaim.org/extension/',
+            external: true,
+          },
+          {
+            label: 'ARIA Design Patterns',
+            href: 'https://www.w3.org/WAI/ARIA/apg/patterns/',
+            external: true,
+          },
+          {
+            label: 'WCAG Plain English',
+            href: 'https://aaardvarkaccessibility.com/wcag-plain-english/',
+            external: true,
+          },
+        ],
+      },
+    ],
+    legal: [
+      {
+        label: 'Accessibility statement',
+        href: '/accessibility-statement',
+      },
+      {
+        label: 'Sitemap',
+        href: '/sitemap',
+      },
+    ],
+    copyrightHolder: 'Incluud',
+  },
+  contact: {
+    transport: 'file', // 'smtp' or 'webhook' for production, see .env.example
+    spamProtection: {
+      honeypot: true,
+      minSubmitTime: 3, // seconds
+      maxSubmitTime: 3600, // seconds
+      rateLimit: { max: 5, window: 10 }, // submissions per IP address per 10 minutes, or false
+    },
+  },
+  // Add a locale per language and list it in `i18n.locales` in astro.config.mjs as well, the build fails when the
+  // two don't match, e.g.
+  // nl: { label: 'Nederlands', seo: { title: '...' }, navigation: [...], strings: { skipLink: 'Naar de inhoud' } }
+  // ar: { label: 'العربية', dir: 'rtl' }
+  defaultLocale: 'en',
+  locales: {
+    en: { label: 'English' },
+  },
 })